@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'bun:test'
+import { createKeyPool } from './pool.js'
+
+const keys = [
+  { key: 'sk-aaaa-1111', label: 'a' },
+  { key: 'sk-bbbb-2222', label: 'b' },
+  { key: 'sk-cccc-3333', label: 'c' },
+]
+
+describe('createKeyPool', () => {
+  it('rotates keys round-robin by default', () => {
+    const pool = createKeyPool({ keys })
+    expect([1, 2, 3, 4].map(() => pool.acquire().label)).toEqual(['a', 'b', 'c', 'a'])
+  })
+
+  it('picks the least recently used key', () => {
+    const pool = createKeyPool({ strategy: 'least-recently-used', keys })
+    const first = pool.acquire().label
+    const second = pool.acquire().label
+    const third = pool.acquire().label
+    expect(new Set([first, second, third]).size).toBe(3)
+  })
+
+  it('respects weights', () => {
+    const pool = createKeyPool(
+      {
+        strategy: 'weighted',
+        keys: [
+          { key: 'k1', label: 'light', weight: 1 },
+          { key: 'k2', label: 'heavy', weight: 3 },
+        ],
+      },
+      () => 0.5
+    )
+    expect(pool.acquire().label).toBe('heavy')
+  })
+
+  it('skips keys on cooldown after a 429', () => {
+    const pool = createKeyPool({ keys })
+    const a = pool.acquire()
+    pool.reportFailure(a, 429)
+    expect([1, 2, 3].map(() => pool.acquire().label)).toEqual(['b', 'c', 'b'])
+    expect(pool.status().find((s) => s.label === 'a')?.coolingDownUntil).toBeGreaterThan(Date.now())
+  })
+
+  it('uses Retry-After when it is longer than the configured cooldown', () => {
+    const pool = createKeyPool({ keys, cooldownMs: 1000 })
+    const a = pool.acquire()
+    pool.reportFailure(a, 429, 120_000)
+    const until = pool.status().find((s) => s.label === 'a')?.coolingDownUntil ?? 0
+    expect(until - Date.now()).toBeGreaterThan(100_000)
+  })
+
+  it('falls back to the key that recovers first when all are cooling down', () => {
+    const pool = createKeyPool({ keys: keys.slice(0, 2), cooldownMs: 1000, authCooldownMs: 60_000 })
+    pool.reportFailure(pool.acquire(), 401)
+    pool.reportFailure(pool.acquire(), 429)
+    expect(pool.acquire().label).toBe('b')
+  })
+
+  it('honors the exclude set', () => {
+    const pool = createKeyPool({ keys })
+    expect(pool.acquire(new Set(['sk-aaaa-1111', 'sk-bbbb-2222'])).label).toBe('c')
+  })
+
+  it('masks keys without a label', () => {
+    const pool = createKeyPool({ keys: [{ key: 'sk-ant-api03-secret-value' }] })
+    expect(pool.acquire().label).toBe('sk-a...alue')
+  })
+})
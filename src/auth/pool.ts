@@ -0,0 +1,149 @@
+import { createLogger } from '../logger.js'
+import type { CredentialPool, CredentialPoolKey } from '../types/plugin.js'
+
+const log = createLogger('auth:pool')
+
+const DEFAULT_COOLDOWN_MS = 60_000
+const DEFAULT_AUTH_COOLDOWN_MS = 10 * 60_000
+
+export interface PooledKey {
+  key: string
+  label: string
+}
+
+export interface PooledKeyStatus {
+  label: string
+  uses: number
+  lastUsedAt?: number
+  /** Set while the key is cooling down after a 401/403/429 */
+  coolingDownUntil?: number
+}
+
+export interface KeyPool {
+  readonly size: number
+  /**
+   * Pick the next key according to the pool strategy. Keys on cooldown are
+   * skipped; if every candidate is cooling down, the one that recovers first
+   * is returned rather than blocking. Keys in `exclude` are never returned
+   * unless nothing else is left.
+   */
+  acquire(exclude?: ReadonlySet<string>): PooledKey
+  /** First key of the pool, without recording a use — for probing SDK capabilities */
+  peek(): PooledKey
+  /** Put a key on cooldown after the upstream rejected it */
+  reportFailure(key: PooledKey, statusCode: number, retryAfterMs?: number): void
+  status(): PooledKeyStatus[]
+  /** True when the pool was built from the same keys and strategy */
+  matches(pool: CredentialPool): boolean
+}
+
+interface KeyEntry extends PooledKey {
+  weight: number
+  uses: number
+  lastUsedAt: number
+  coolingDownUntil: number
+}
+
+function maskKey(key: string): string {
+  return key.length <= 8 ? '***' : `${key.slice(0, 4)}...${key.slice(-4)}`
+}
+
+function poolFingerprint(pool: CredentialPool): string {
+  return JSON.stringify([pool.strategy ?? 'round-robin', pool.keys.map((k) => [k.key, k.weight ?? 1])])
+}
+
+export function createKeyPool(pool: CredentialPool, random: () => number = Math.random): KeyPool {
+  if (pool.keys.length === 0) throw new Error('Credential pool must contain at least one key')
+
+  const strategy = pool.strategy ?? 'round-robin'
+  const cooldownMs = pool.cooldownMs ?? DEFAULT_COOLDOWN_MS
+  const authCooldownMs = pool.authCooldownMs ?? DEFAULT_AUTH_COOLDOWN_MS
+  const fingerprint = poolFingerprint(pool)
+  const entries: KeyEntry[] = pool.keys.map((k: CredentialPoolKey) => ({
+    key: k.key,
+    label: k.label ?? maskKey(k.key),
+    weight: Math.max(0, k.weight ?? 1),
+    uses: 0,
+    lastUsedAt: 0,
+    coolingDownUntil: 0,
+  }))
+  let cursor = 0
+
+  log('created %s pool with %d keys', strategy, entries.length)
+
+  function select(candidates: KeyEntry[]): KeyEntry {
+    if (strategy === 'least-recently-used') {
+      return candidates.reduce((best, e) => (e.lastUsedAt < best.lastUsedAt ? e : best))
+    }
+    if (strategy === 'weighted') {
+      const total = candidates.reduce((sum, e) => sum + e.weight, 0)
+      if (total > 0) {
+        let roll = random() * total
+        for (const e of candidates) {
+          roll -= e.weight
+          if (roll < 0) return e
+        }
+      }
+      return candidates[candidates.length - 1] as KeyEntry
+    }
+    for (let i = 0; i < entries.length; i++) {
+      const e = entries[(cursor + i) % entries.length] as KeyEntry
+      if (candidates.includes(e)) {
+        cursor = (entries.indexOf(e) + 1) % entries.length
+        return e
+      }
+    }
+    return candidates[0] as KeyEntry
+  }
+
+  return {
+    get size() {
+      return entries.length
+    },
+
+    acquire(exclude?: ReadonlySet<string>): PooledKey {
+      const now = Date.now()
+      const allowed = entries.filter((e) => !exclude?.has(e.key))
+      const eligible = allowed.length > 0 ? allowed : entries
+      const ready = eligible.filter((e) => e.coolingDownUntil <= now)
+
+      const chosen =
+        ready.length > 0
+          ? select(ready)
+          : eligible.reduce((best, e) => (e.coolingDownUntil < best.coolingDownUntil ? e : best))
+      if (ready.length === 0) log('all keys cooling down, using %s', chosen.label)
+
+      chosen.uses += 1
+      chosen.lastUsedAt = now
+      return { key: chosen.key, label: chosen.label }
+    },
+
+    peek(): PooledKey {
+      const first = entries[0] as KeyEntry
+      return { key: first.key, label: first.label }
+    },
+
+    reportFailure(key: PooledKey, statusCode: number, retryAfterMs?: number): void {
+      const entry = entries.find((e) => e.key === key.key)
+      if (entry === undefined) return
+      const base = statusCode === 401 || statusCode === 403 ? authCooldownMs : cooldownMs
+      const duration = Math.max(base, retryAfterMs ?? 0)
+      entry.coolingDownUntil = Date.now() + duration
+      log('key %s cooling down for %dms after HTTP %d', entry.label, duration, statusCode)
+    },
+
+    status(): PooledKeyStatus[] {
+      const now = Date.now()
+      return entries.map((e) => ({
+        label: e.label,
+        uses: e.uses,
+        ...(e.lastUsedAt > 0 ? { lastUsedAt: e.lastUsedAt } : {}),
+        ...(e.coolingDownUntil > now ? { coolingDownUntil: e.coolingDownUntil } : {}),
+      }))
+    },
+
+    matches(other: CredentialPool): boolean {
+      return poolFingerprint(other) === fingerprint
+    },
+  }
+}
@@ -1,3 +1,5 @@
+import type { EventEmitter } from '../events.js'
+import { createEventHub } from '../events.js'
 import { createLogger } from '../logger.js'
 import { type StorageAdapter, createDefaultStorage } from '../storage/index.js'
 import type { AuthCredential } from '../types/plugin.js'
@@ -27,6 +29,14 @@ export interface AuthStoreOptions {
   data?: Record<string, AuthCredential>
 }
 
+export interface AuthStoreEvents {
+  /** A credential was stored, replaced or removed (`credential: null`) through set()/remove() */
+  'credential:changed': { providerId: string; credential: AuthCredential | null }
+  /** discover() finished; one entry per provider it found a credential for */
+  'discover:found': { credentials: DiscoveredCredential[] }
+}
+
+/** Credentials keyed by provider id, or "provider:account" for a named account */
 export interface AuthStore {
   all(): Promise<Record<string, AuthCredential>>
   get(providerId: string): Promise<AuthCredential | null>
@@ -34,6 +44,12 @@ export interface AuthStore {
   remove(providerId: string): Promise<void>
   discover(options?: DiscoverOptions): Promise<DiscoveredCredential[]>
   getPreferred?(providerId: string, prefer: 'api' | 'oauth'): Promise<AuthCredential | null>
+  /** Provider stores subscribe to drop cached clients when a credential changes */
+  events?: EventEmitter<AuthStoreEvents>
+}
+
+function hasUsableKey(credential: AuthCredential): boolean {
+  return Boolean(credential.key) || (credential.pool?.keys.length ?? 0) > 0
 }
 
 function pickBestCredential(creds: AuthCredential[], prefer: 'api' | 'oauth' = 'api'): AuthCredential | undefined {
@@ -49,6 +65,7 @@ export function createAuthStore(options?: AuthStoreOptions): AuthStore {
   const externalData = options?.data
   let storagePromise: Promise<StorageAdapter> | undefined
   const discoveredCredentials = new Map<string, AuthCredential[]>()
+  const events = createEventHub<AuthStoreEvents>()
 
   log('auth store created, external=%s', externalData !== undefined)
 
@@ -108,7 +125,7 @@ export function createAuthStore(options?: AuthStoreOptions): AuthStore {
     if (discoveredCredentials.size === 0) return fileData
     const merged = { ...fileData }
     for (const [pid, creds] of discoveredCredentials) {
-      if (merged[pid] === undefined || !merged[pid].key) {
+      if (merged[pid] === undefined || !hasUsableKey(merged[pid])) {
         const best = pickBestCredential(creds, 'api')
         if (best !== undefined) {
           merged[pid] = best
@@ -177,6 +194,7 @@ export function createAuthStore(options?: AuthStoreOptions): AuthStore {
       store[providerId] = credential
       await writeAuthState(store)
       log('set(%s): type=%s', providerId, credential.type)
+      events.emit('credential:changed', { providerId, credential })
     },
 
     async remove(providerId: string): Promise<void> {
@@ -188,6 +206,7 @@ export function createAuthStore(options?: AuthStoreOptions): AuthStore {
       delete store[providerId]
       await writeAuthState(store)
       log('remove(%s): done', providerId)
+      events.emit('credential:changed', { providerId, credential: null })
     },
 
     async discover(discoverOptions?: DiscoverOptions): Promise<DiscoveredCredential[]> {
@@ -245,6 +264,7 @@ export function createAuthStore(options?: AuthStoreOptions): AuthStore {
       }
 
       log('discover: complete, %d providers found', results.length)
+      if (results.length > 0) events.emit('discover:found', { credentials: results })
       return results
     },
 
@@ -258,6 +278,8 @@ export function createAuthStore(options?: AuthStoreOptions): AuthStore {
       const credential = store[providerId]
       return credential ?? null
     },
+
+    events,
   }
 
   async function persistDiscoveredCredentials(): Promise<number> {
@@ -268,7 +290,7 @@ export function createAuthStore(options?: AuthStoreOptions): AuthStore {
 
     for (const [providerId, creds] of discoveredCredentials) {
       const existing = store[providerId]
-      if (existing?.key) {
+      if (existing !== undefined && hasUsableKey(existing)) {
         continue
       }
 
@@ -354,4 +376,16 @@ const ENV_HINTS: Array<[string, string]> = [
   ['MISTRAL_API_KEY', 'mistral'],
   ['GROQ_API_KEY', 'groq'],
   ['OPENROUTER_API_KEY', 'openrouter'],
+  ['DEEPSEEK_API_KEY', 'deepseek'],
+  ['CEREBRAS_API_KEY', 'cerebras'],
+  ['TOGETHER_API_KEY', 'togetherai'],
+  ['TOGETHER_AI_API_KEY', 'togetherai'],
+  ['FIREWORKS_API_KEY', 'fireworks-ai'],
+  ['PERPLEXITY_API_KEY', 'perplexity'],
+  ['COHERE_API_KEY', 'cohere'],
+  ['DEEPINFRA_API_KEY', 'deepinfra'],
+  ['BASETEN_API_KEY', 'baseten'],
+  ['AI_GATEWAY_API_KEY', 'vercel'],
+  ['HUGGINGFACE_API_KEY', 'huggingface'],
+  ['HF_TOKEN', 'huggingface'],
 ]
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'bun:test'
+import { formatAccountId, parseAccountId, parseModelRef, toModelAlias } from './alias.js'
+import { Catalog } from './catalog.js'
+
+describe('parseModelRef', () => {
+  it('splits provider and model on the first slash', () => {
+    expect(parseModelRef('anthropic/claude-sonnet-4-6')).toEqual({
+      providerId: 'anthropic',
+      modelId: 'claude-sonnet-4-6',
+    })
+  })
+
+  it('keeps slashes inside the model id', () => {
+    expect(parseModelRef('openrouter/anthropic/claude-sonnet-4-6')).toEqual({
+      providerId: 'openrouter',
+      modelId: 'anthropic/claude-sonnet-4-6',
+    })
+  })
+
+  it('rejects references without a provider or model part', () => {
+    expect(parseModelRef('claude-sonnet-4-6')).toBeUndefined()
+    expect(parseModelRef('/claude-sonnet-4-6')).toBeUndefined()
+    expect(parseModelRef('anthropic/')).toBeUndefined()
+  })
+})
+
+describe('parseAccountId', () => {
+  it('splits a named account from the provider', () => {
+    expect(parseAccountId('openai:work')).toEqual({ providerId: 'openai', account: 'work' })
+    expect(parseAccountId('openai')).toEqual({ providerId: 'openai' })
+    expect(parseAccountId('openai:')).toEqual({ providerId: 'openai:' })
+    expect(formatAccountId({ providerId: 'openai', account: 'work' })).toBe('openai:work')
+  })
+
+  it('keeps the account in a model reference', () => {
+    expect(parseModelRef('openai:work/gpt-4o')).toEqual({ providerId: 'openai:work', modelId: 'gpt-4o' })
+  })
+})
+
+describe('model aliases', () => {
+  it('throws on a target that is not "provider/model"', () => {
+    expect(() => toModelAlias('fast', 'llama-3.3-70b')).toThrow('Invalid target for model alias "fast"')
+  })
+
+  it('registers aliases through Catalog.extend()', () => {
+    const catalog = new Catalog()
+    catalog.extend({ aliases: { fast: 'groq/llama-3.3-70b', smart: 'anthropic/claude-sonnet-4-6' } })
+
+    expect(catalog.getAlias('fast')).toEqual({ alias: 'fast', provider: 'groq', model: 'llama-3.3-70b' })
+    expect(catalog.listAliases().map((a) => a.alias)).toEqual(['fast', 'smart'])
+  })
+
+  it('replaces an existing alias when extended again', () => {
+    const catalog = new Catalog()
+    catalog.extend({ aliases: { fast: 'groq/llama-3.3-70b' } })
+    catalog.extend({ aliases: { fast: 'cerebras/llama-3.3-70b' } })
+
+    expect(catalog.getAlias('fast')?.provider).toBe('cerebras')
+  })
+})
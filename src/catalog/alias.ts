@@ -0,0 +1,50 @@
+import type { ModelAlias } from '../types/model.js'
+
+export interface ModelRef {
+  providerId: string
+  modelId: string
+}
+
+/**
+ * Parse a "provider/model" reference. Only the first slash separates the
+ * provider, so model ids that contain slashes (e.g. OpenRouter's
+ * "anthropic/claude-sonnet-4-6") survive intact.
+ */
+export function parseModelRef(ref: string): ModelRef | undefined {
+  const idx = ref.indexOf('/')
+  if (idx <= 0 || idx === ref.length - 1) return undefined
+  return { providerId: ref.slice(0, idx), modelId: ref.slice(idx + 1) }
+}
+
+export function formatModelRef(ref: ModelRef): string {
+  return `${ref.providerId}/${ref.modelId}`
+}
+
+export interface AccountRef {
+  providerId: string
+  /** Named account, e.g. "work" in "openai:work" */
+  account?: string
+}
+
+/**
+ * Split a provider id into the catalog provider and an optional named account.
+ * "openai:work" is the "work" account of the openai provider; "openai" is its
+ * default account.
+ */
+export function parseAccountId(id: string): AccountRef {
+  const idx = id.indexOf(':')
+  if (idx <= 0 || idx === id.length - 1) return { providerId: id }
+  return { providerId: id.slice(0, idx), account: id.slice(idx + 1) }
+}
+
+export function formatAccountId(ref: AccountRef): string {
+  return ref.account === undefined ? ref.providerId : `${ref.providerId}:${ref.account}`
+}
+
+export function toModelAlias(alias: string, target: string): ModelAlias {
+  const parsed = parseModelRef(target)
+  if (parsed === undefined) {
+    throw new Error(`Invalid target for model alias "${alias}": expected "provider/model", got "${target}"`)
+  }
+  return { alias, provider: parsed.providerId, model: parsed.modelId }
+}
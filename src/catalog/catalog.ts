@@ -1,5 +1,8 @@
 import { createLogger } from '../logger.js'
-import type { ModelDefinition } from '../types/model.js'
+import { sanitizeUrl, withSpan } from '../telemetry.js'
+import type { ModelAlias, ModelDefinition, ModelType } from '../types/model.js'
+import type { RateLimit, RetryOptions, TimeoutOptions } from '../types/provider.js'
+import { toModelAlias } from './alias.js'
 import { mapModelsDevProvider, mapModelsDevProviderMetadata } from './mapper.js'
 import { mergeCatalogData, mergeModelDefinitions } from './merger.js'
 
@@ -25,15 +28,27 @@ export interface CatalogProvider {
   baseURL?: string
   headers?: Record<string, string>
   options?: Record<string, unknown>
+  rateLimit?: RateLimit
+  retry?: RetryOptions | false
+  timeout?: TimeoutOptions | false
+  /** Runs on this machine and needs no credential */
+  local?: boolean
 }
 
 export interface ExtendModelConfig {
   name?: string
+  type?: ModelType
   modalities?: {
     input: Array<'text' | 'image' | 'audio' | 'video' | 'pdf'>
     output: Array<'text' | 'image' | 'audio'>
   }
   limit?: { context: number; output: number }
+  /** USD per million tokens, used for usage cost accounting */
+  cost?: ModelDefinition['cost']
+  reasoning?: boolean
+  tool_call?: boolean
+  structured_output?: boolean
+  status?: ModelDefinition['status']
 }
 
 export interface ExtendProviderConfig {
@@ -43,11 +58,21 @@ export interface ExtendProviderConfig {
   baseURL?: string
   headers?: Record<string, string>
   options?: Record<string, unknown>
+  /** Default client-side rate limit for this provider's credentials */
+  rateLimit?: RateLimit
+  /** Fetch-level retry policy for this provider; `false` disables retries */
+  retry?: RetryOptions | false
+  /** Fetch-level timeouts for this provider; `false` disables them */
+  timeout?: TimeoutOptions | false
+  /** Runs on this machine (e.g. Ollama) and is usable without a credential */
+  local?: boolean
   models?: Record<string, ExtendModelConfig>
 }
 
 export interface ExtendConfig {
   providers?: Record<string, ExtendProviderConfig>
+  /** Alias name → "provider/model" target, e.g. `{ fast: 'groq/llama-3.3-70b' }` */
+  aliases?: Record<string, string>
 }
 
 export interface CatalogOptions {
@@ -80,6 +105,8 @@ export class Catalog {
   private refreshInFlight: Promise<RefreshResult> | null = null
   private readonly extendedProviders = new Map<string, CatalogProvider>()
   private readonly extendedModels = new Map<string, Map<string, Partial<ModelDefinition>>>()
+  private readonly liveModels = new Map<string, Map<string, Partial<ModelDefinition>>>()
+  private readonly aliases = new Map<string, ModelAlias>()
 
   constructor(options: CatalogOptions = {}) {
     this.snapshotData = options.snapshot ?? {}
@@ -122,6 +149,14 @@ export class Catalog {
     return results
   }
 
+  getAlias(alias: string): ModelAlias | undefined {
+    return this.aliases.get(alias)
+  }
+
+  listAliases(): ModelAlias[] {
+    return [...this.aliases.values()]
+  }
+
   enrichModel(providerId: string, modelId: string, partial: Partial<ModelDefinition>): ModelDefinition {
     const catalogModel = this.getModel(providerId, modelId)
     const partialWithId = { ...partial, modelId }
@@ -132,6 +167,13 @@ export class Catalog {
   }
 
   extend(config: ExtendConfig): void {
+    if (config.aliases) {
+      for (const [alias, target] of Object.entries(config.aliases)) {
+        this.aliases.set(alias, toModelAlias(alias, target))
+        log('extend: alias %s -> %s', alias, target)
+      }
+    }
+
     if (!config.providers) return
 
     for (const [providerId, providerConfig] of Object.entries(config.providers)) {
@@ -146,6 +188,10 @@ export class Catalog {
         ...(providerConfig.baseURL !== undefined ? { baseURL: providerConfig.baseURL } : {}),
         ...(providerConfig.headers !== undefined ? { headers: providerConfig.headers } : {}),
         ...(providerConfig.options !== undefined ? { options: providerConfig.options } : {}),
+        ...(providerConfig.rateLimit !== undefined ? { rateLimit: providerConfig.rateLimit } : {}),
+        ...(providerConfig.retry !== undefined ? { retry: providerConfig.retry } : {}),
+        ...(providerConfig.timeout !== undefined ? { timeout: providerConfig.timeout } : {}),
+        ...(providerConfig.local !== undefined ? { local: providerConfig.local } : {}),
       }
 
       this.extendedProviders.set(providerId, provider)
@@ -157,8 +203,14 @@ export class Catalog {
         for (const [modelId, modelConfig] of Object.entries(providerConfig.models)) {
           const partial: Partial<ModelDefinition> = { modelId }
           if (modelConfig.name !== undefined) partial.name = modelConfig.name
+          if (modelConfig.type !== undefined) partial.type = modelConfig.type
           if (modelConfig.modalities !== undefined) partial.modalities = modelConfig.modalities
           if (modelConfig.limit !== undefined) partial.limit = modelConfig.limit
+          if (modelConfig.cost !== undefined) partial.cost = modelConfig.cost
+          if (modelConfig.reasoning !== undefined) partial.reasoning = modelConfig.reasoning
+          if (modelConfig.tool_call !== undefined) partial.tool_call = modelConfig.tool_call
+          if (modelConfig.structured_output !== undefined) partial.structured_output = modelConfig.structured_output
+          if (modelConfig.status !== undefined) partial.status = modelConfig.status
           modelOverrides.set(modelId, partial)
         }
 
@@ -169,6 +221,16 @@ export class Catalog {
     }
   }
 
+  /**
+   * Replace the models a provider's own API listed for it. They are merged as
+   * the 'live' provenance tier, above the snapshot and below models.dev.
+   */
+  setLiveModels(providerId: string, models: Array<Partial<ModelDefinition> & { modelId: string }>): void {
+    this.liveModels.set(providerId, new Map(models.map((model) => [model.modelId, model])))
+    this.modelsByProvider.delete(providerId)
+    log('live: %d models for %s', models.length, providerId)
+  }
+
   refresh(): Promise<RefreshResult> {
     if (this.refreshInFlight) {
       return this.refreshInFlight
@@ -182,24 +244,32 @@ export class Catalog {
     return task
   }
 
-  private async refreshInternal(): Promise<RefreshResult> {
-    try {
-      log('refresh: fetching from %s', this.remoteOptions.url)
-      const remoteData = await this.fetchRemoteData()
-      this.remoteData = remoteData
-      const { updatedProviders } = this.applyProviderMetadata(this.snapshotData, this.remoteData)
-      this.modelsByProvider.clear()
-      log('refresh: updated %d providers', updatedProviders.length)
-      return { success: true, updatedProviders, newModels: 0 }
-    } catch (error) {
-      log('refresh: failed — %s', error instanceof Error ? error.message : String(error))
-      return {
-        success: false,
-        updatedProviders: [],
-        newModels: 0,
-        error: error instanceof Error ? error : new Error(String(error)),
+  private refreshInternal(): Promise<RefreshResult> {
+    return withSpan(
+      'openllmprovider.catalog.refresh',
+      { 'url.full': sanitizeUrl(this.remoteOptions.url) },
+      async (span) => {
+        try {
+          log('refresh: fetching from %s', this.remoteOptions.url)
+          const remoteData = await this.fetchRemoteData()
+          this.remoteData = remoteData
+          const { updatedProviders } = this.applyProviderMetadata(this.snapshotData, this.remoteData)
+          this.modelsByProvider.clear()
+          log('refresh: updated %d providers', updatedProviders.length)
+          span.setAttributes({ 'openllmprovider.catalog.updated_providers': updatedProviders.length })
+          return { success: true, updatedProviders, newModels: 0 }
+        } catch (error) {
+          log('refresh: failed — %s', error instanceof Error ? error.message : String(error))
+          span.recordError(error)
+          return {
+            success: false,
+            updatedProviders: [],
+            newModels: 0,
+            error: error instanceof Error ? error : new Error(String(error)),
+          }
+        }
       }
-    }
+    )
   }
 
   private async fetchRemoteData(): Promise<CatalogDataSource> {
@@ -283,7 +353,7 @@ export class Catalog {
     )
     const extendedOverrides = this.extendedModels.get(providerId) ?? new Map<string, Partial<ModelDefinition>>()
 
-    const merged = mergeCatalogData(snapshotModels, remoteModels, extendedOverrides)
+    const merged = mergeCatalogData(snapshotModels, remoteModels, extendedOverrides, this.liveModels.get(providerId))
 
     for (const [modelId, partial] of extendedOverrides.entries()) {
       if (!merged.has(modelId)) {
@@ -11,6 +11,8 @@ export type {
 } from './catalog.js'
 
 export { Catalog }
+export { parseModelRef, formatModelRef, parseAccountId, formatAccountId } from './alias.js'
+export type { AccountRef, ModelRef } from './alias.js'
 
 export function createCatalog(options: CatalogOptions = {}): Catalog {
   return new Catalog(options)
@@ -1,11 +1,13 @@
 import { z } from 'zod'
-import type { ModelDefinition } from '../types/model.js'
+import type { ModelDefinition, ModelType } from '../types/model.js'
+import { MODEL_TYPES } from '../types/model.js'
 
 const ModelsDevModelSchema = z
   .object({
     id: z.string().optional(),
     name: z.string().optional(),
     family: z.string().optional(),
+    type: z.string().optional(),
 
     reasoning: z.boolean().optional(),
     tool_call: z.boolean().optional(),
@@ -57,6 +59,10 @@ const ModelsDevProviderSchema = z
   })
   .passthrough()
 
+function isModelType(value: string | undefined): value is ModelType {
+  return value !== undefined && (MODEL_TYPES as readonly string[]).includes(value)
+}
+
 export function mapModelsDevToModelDefinition(
   modelId: string,
   raw: unknown,
@@ -65,13 +71,18 @@ export function mapModelsDevToModelDefinition(
   const parsed = ModelsDevModelSchema.safeParse(raw)
   if (!parsed.success) return null
 
-  const { id: _id, knowledge, ...rest } = parsed.data
+  const { id: _id, knowledge, type, ...rest } = parsed.data
 
   const result: Record<string, unknown> = {
     ...rest,
     modelId,
   }
 
+  // Unknown model kinds are dropped rather than rejecting the whole model
+  if (isModelType(type)) {
+    result.type = type
+  }
+
   if (knowledge !== undefined) {
     result.knowledgeCutoff = knowledge
   }
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'bun:test'
+import type { ModelDefinition } from '../types/model.js'
+import { mergeCatalogData } from './merger.js'
+
+const model = (modelId: string, context: number): ModelDefinition => ({
+  modelId,
+  modalities: { input: ['text'], output: ['text'] },
+  limit: { context, output: 4096 },
+})
+
+describe('mergeCatalogData', () => {
+  it('adds live-only models and keeps models.dev metadata where both exist', () => {
+    const remote = new Map([['gpt-known', model('gpt-known', 128000)]])
+    const live = new Map([
+      ['gpt-known', { modelId: 'gpt-known', limit: { context: 8000, output: 0 } }],
+      ['ft:gpt-known:acme', { modelId: 'ft:gpt-known:acme' }],
+    ])
+    const merged = mergeCatalogData(new Map(), remote, new Map(), live)
+    expect(merged.get('gpt-known')).toMatchObject({ provenance: 'remote', limit: { context: 128000 } })
+    expect(merged.get('ft:gpt-known:acme')).toMatchObject({ provenance: 'live', limit: { context: 0 } })
+  })
+
+  it('does not deprecate snapshot models the provider still lists', () => {
+    const snapshot = new Map([
+      ['listed', model('listed', 1000)],
+      ['gone', model('gone', 1000)],
+    ])
+    const live = new Map([['listed', { modelId: 'listed' }]])
+    const merged = mergeCatalogData(snapshot, new Map(), new Map(), live)
+    expect(merged.get('listed')).toMatchObject({ provenance: 'live' })
+    expect(merged.get('listed')?.status).toBeUndefined()
+    expect(merged.get('gone')?.status).toBe('deprecated')
+  })
+})
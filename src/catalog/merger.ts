@@ -47,21 +47,34 @@ export function mergeModelDefinitions(base: ModelDefinition, overlay: Partial<Mo
   return result
 }
 
+/** Starting point for models only the provider's own listing knows about */
+function liveBase(modelId: string): ModelDefinition {
+  return { modelId, modalities: { input: ['text'], output: ['text'] }, limit: { context: 0, output: 0 } }
+}
+
+/**
+ * Merge the metadata tiers of one provider. Live listings rank between the
+ * snapshot and models.dev: they add models models.dev does not know yet, while
+ * models.dev's richer metadata wins where both describe a model.
+ */
 export function mergeCatalogData(
   snapshot: Map<string, ModelDefinition>,
   remote: Map<string, ModelDefinition>,
-  overrides: Map<string, Partial<ModelDefinition>>
+  overrides: Map<string, Partial<ModelDefinition>>,
+  live: Map<string, Partial<ModelDefinition>> = new Map()
 ): Map<string, ModelDefinition> {
-  const allModelIds = new Set([...snapshot.keys(), ...remote.keys()])
+  const allModelIds = new Set([...snapshot.keys(), ...remote.keys(), ...live.keys()])
   const result = new Map<string, ModelDefinition>()
 
   for (const modelId of allModelIds) {
     const snap = snapshot.get(modelId)
     const rem = remote.get(modelId)
+    const liveModel = live.get(modelId)
     const override = overrides.get(modelId)
 
     const inSnapshot = snap !== undefined
     const inRemote = rem !== undefined
+    const inLive = liveModel !== undefined
     const hasOverride = override !== undefined
 
     let merged: ModelDefinition
@@ -72,10 +85,18 @@ export function mergeCatalogData(
       merged = { ...rem }
     } else if (snap) {
       merged = { ...snap }
+    } else if (liveModel) {
+      merged = liveBase(modelId)
     } else {
       continue
     }
 
+    if (liveModel) {
+      merged = mergeModelDefinitions(merged, liveModel)
+      // models.dev stays authoritative over the sparse live listing
+      if (rem) merged = mergeModelDefinitions(merged, rem)
+    }
+
     if (hasOverride) {
       merged = mergeModelDefinitions(merged, override)
     }
@@ -84,11 +105,14 @@ export function mergeCatalogData(
       merged.provenance = 'user-override'
     } else if (inRemote) {
       merged.provenance = 'remote'
+    } else if (inLive) {
+      merged.provenance = 'live'
     } else {
       merged.provenance = 'snapshot'
     }
 
-    if (inSnapshot && !inRemote) {
+    // a model the provider still lists is not deprecated just because models.dev dropped it
+    if (inSnapshot && !inRemote && !inLive) {
       merged.status = 'deprecated'
     }
 
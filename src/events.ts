@@ -0,0 +1,61 @@
+import { createLogger } from './logger.js'
+
+const log = createLogger('events')
+
+/** Typed subscription surface; `on` and `once` return an unsubscribe function */
+export interface EventEmitter<Events extends object> {
+  on<E extends keyof Events>(event: E, listener: (payload: Events[E]) => void): () => void
+  once<E extends keyof Events>(event: E, listener: (payload: Events[E]) => void): () => void
+  off<E extends keyof Events>(event: E, listener: (payload: Events[E]) => void): void
+}
+
+export interface EventHub<Events extends object> extends EventEmitter<Events> {
+  emit<E extends keyof Events>(event: E, payload: Events[E]): void
+}
+
+/**
+ * Listeners run synchronously in subscription order. A throwing listener is
+ * logged and does not affect the others or the code that emitted the event.
+ */
+export function createEventHub<Events extends object>(): EventHub<Events> {
+  const listeners = new Map<keyof Events, Set<(payload: never) => void>>()
+
+  function off<E extends keyof Events>(event: E, listener: (payload: Events[E]) => void): void {
+    listeners.get(event)?.delete(listener)
+  }
+
+  function on<E extends keyof Events>(event: E, listener: (payload: Events[E]) => void): () => void {
+    let set = listeners.get(event)
+    if (set === undefined) {
+      set = new Set()
+      listeners.set(event, set)
+    }
+    set.add(listener)
+    return () => off(event, listener)
+  }
+
+  return {
+    on,
+    off,
+
+    once(event, listener) {
+      const unsubscribe = on(event, (payload) => {
+        unsubscribe()
+        listener(payload)
+      })
+      return unsubscribe
+    },
+
+    emit(event, payload) {
+      const set = listeners.get(event)
+      if (set === undefined) return
+      for (const listener of [...set] as Array<(payload: Events[typeof event]) => void>) {
+        try {
+          listener(payload)
+        } catch (err) {
+          log('%s listener failed: %s', String(event), err instanceof Error ? err.message : String(err))
+        }
+      }
+    },
+  }
+}
@@ -4,19 +4,68 @@ export {
   loadProvider,
   isProviderInstalled,
   getAllProviderPackages,
+  registerBundledProvider,
+  LOCAL_SERVERS,
+  createFallbackLanguageModel,
+  isFallbackError,
+  wrapLanguageModel,
+  createResponseCacheMiddleware,
+  createUsageTracker,
+  computeCost,
+  createRetryFetch,
 } from './provider/index.js'
 export type {
+  ProviderFactory,
+  ProviderInstance,
+  ProviderLoader,
   ProviderStore,
   ProviderStoreConfig,
   ProviderListOptions,
+  ProviderListEntry,
   ModelListOptions,
   GetModelOptions,
+  FallbackOptions,
+  LanguageModelMiddleware,
+  ResponseCacheOptions,
+  UsageRecord,
+  UsageTotals,
+  UsageTracker,
+  UsageTrackerOptions,
+  BudgetConfig,
+  BudgetPeriod,
+  BudgetStatus,
+  BudgetWarning,
+  CircuitBreakerOptions,
+  CircuitState,
+  CircuitStatus,
+  ProviderHealth,
+  ValidateOptions,
+  ValidationResult,
+  ValidationStatus,
+  ModelCriteria,
+  SelectedModel,
+  DiscoveredLocalServer,
+  LocalDiscoveryOptions,
+  LocalServer,
+  ProviderStoreEvents,
+  RequestEvent,
+  RequestUsage,
+  LiveSyncOptions,
+  LiveSyncResult,
 } from './provider/index.js'
+export type { EventEmitter } from './events.js'
 
 export { createAuthStore } from './auth/index.js'
-export type { AuthStore, AuthStoreOptions, DiscoveredCredential, DiscoverOptions } from './auth/index.js'
+export type {
+  AuthStore,
+  AuthStoreEvents,
+  AuthStoreOptions,
+  DiscoveredCredential,
+  DiscoverOptions,
+} from './auth/index.js'
 export { DEFAULT_SCANNERS } from './auth/index.js'
 export type { DiskScanner, DiskScanResult, ScanContext } from './auth/index.js'
+export type { PooledKeyStatus } from './auth/index.js'
 
 export { registerPlugin, getPlugins, getPluginForProvider } from './plugin/index.js'
 export { copilotPlugin } from './plugin/copilot.js'
@@ -27,11 +76,52 @@ export { anthropicPlugin } from './plugin/anthropic.js'
 export { MemoryStorage, FileStorage, createDefaultStorage } from './storage/index.js'
 export type { StorageAdapter } from './storage/index.js'
 
-export type { LanguageModel, LanguageModelV3 } from './types/index.js'
+export type {
+  LanguageModel,
+  LanguageModelV3,
+  EmbeddingModel,
+  EmbeddingModelV3,
+  ImageModel,
+  ImageModelV3,
+  SpeechModel,
+  SpeechModelV3,
+  TranscriptionModel,
+  TranscriptionModelV3,
+  RerankingModel,
+  RerankingModelV3,
+} from './types/index.js'
 export type { ExtendConfig, ExtendProviderConfig, ExtendModelConfig, CatalogProvider } from './catalog/catalog.js'
-export type { ModelDefinition } from './types/index.js'
-export type { AuthHook, AuthMethod, AuthCredential, ProviderInfo } from './types/index.js'
+export { parseModelRef, formatModelRef, parseAccountId, formatAccountId } from './catalog/alias.js'
+export type { AccountRef, ModelRef } from './catalog/alias.js'
+export type { ModelDefinition, ModelType, ModelAlias } from './types/index.js'
+export type {
+  AuthHook,
+  AuthMethod,
+  AuthCredential,
+  CredentialPool,
+  CredentialPoolKey,
+  ProviderInfo,
+} from './types/index.js'
 export type { SecretRef, SecretResolver } from './types/index.js'
-export type { ProviderUserConfig } from './types/index.js'
+export type { ProviderUserConfig, RateLimit, RetryOptions, SpendBudget, TimeoutOptions } from './types/index.js'
+export {
+  OpenLLMProviderError,
+  AuthError,
+  ValidationError,
+  ModelNotFoundError,
+  CredentialNotFoundError,
+  ProviderNotRegisteredError,
+  CatalogSyncFailedError,
+  BudgetExceededError,
+  ProviderUnavailableError,
+  RateLimitError,
+  QuotaExhaustedError,
+  AuthExpiredError,
+  ContextLengthExceededError,
+  ContentFilteredError,
+  UpstreamError,
+  RequestTimeoutError,
+} from './types/index.js'
+export type { ErrorCode, ErrorOptions, TimeoutPhase } from './types/index.js'
 
 export { createLogger } from './logger.js'
@@ -3,6 +3,7 @@ import { createHash, randomBytes } from 'node:crypto'
 import { stdin as input, stdout as output } from 'node:process'
 import { createInterface } from 'node:readline/promises'
 import { createLogger } from '../logger.js'
+import { withSpan } from '../telemetry.js'
 import type { AuthCredential, AuthHook } from '../types/plugin.js'
 
 const log = createLogger('plugin:anthropic')
@@ -208,7 +209,10 @@ async function resolveOAuthToken(
   let token = auth.key
   if (auth.expires !== undefined && auth.expires < Date.now() && typeof auth.refresh === 'string') {
     try {
-      const refreshed = await refreshAccessToken(auth.refresh)
+      const refreshToken = auth.refresh
+      const refreshed = await withSpan('openllmprovider.oauth.refresh', { 'openllmprovider.plugin': 'anthropic' }, () =>
+        refreshAccessToken(refreshToken)
+      )
       token = refreshed.access_token
       if (setAuth) {
         const updated: AuthCredential = {
@@ -2,6 +2,7 @@ import { spawn } from 'node:child_process'
 import { createHash, randomBytes } from 'node:crypto'
 import { createServer } from 'node:http'
 import { createLogger } from '../logger.js'
+import { withSpan } from '../telemetry.js'
 import type { AuthCredential, AuthHook, AuthMethod, ProviderInfo } from '../types/plugin.js'
 
 const log = createLogger('plugin:codex')
@@ -515,7 +516,10 @@ export const codexPlugin: AuthHook = {
         ) {
           log('token expired, attempting refresh...')
           try {
-            const tokens = await refreshAccessToken(currentAuth.refresh)
+            const refreshToken = currentAuth.refresh
+            const tokens = await withSpan('openllmprovider.oauth.refresh', { 'openllmprovider.plugin': 'openai' }, () =>
+              refreshAccessToken(refreshToken)
+            )
             currentAuth = {
               ...currentAuth,
               key: tokens.access_token,
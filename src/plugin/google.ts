@@ -3,6 +3,7 @@ import { createHash, randomBytes, randomUUID } from 'node:crypto'
 import { stdin as input, stdout as output } from 'node:process'
 import { createInterface } from 'node:readline/promises'
 import { createLogger } from '../logger.js'
+import { withSpan } from '../telemetry.js'
 import type { AuthCredential, AuthHook, ProviderInfo } from '../types/plugin.js'
 
 const log = createLogger('plugin:google')
@@ -356,7 +357,10 @@ export const googlePlugin: AuthHook = {
         ) {
           log('token expired, attempting refresh...')
           try {
-            const tokens = await refreshGoogleToken(currentAuth.refresh)
+            const refreshToken = currentAuth.refresh
+            const tokens = await withSpan('openllmprovider.oauth.refresh', { 'openllmprovider.plugin': 'google' }, () =>
+              refreshGoogleToken(refreshToken)
+            )
             currentToken = tokens.access_token
             const updated: AuthCredential = {
               ...currentAuth,
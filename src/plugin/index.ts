@@ -1,4 +1,5 @@
 import { createLogger } from '../logger.js'
+import { traceFetch, withSpan } from '../telemetry.js'
 import type { AuthCredential, AuthHook, ProviderInfo } from '../types/plugin.js'
 
 const log = createLogger('plugin')
@@ -26,5 +27,13 @@ export async function loadPluginOptions(
   const plugin = plugins.get(providerId)
   if (!plugin) return undefined
   log('loading plugin options for provider: %s', providerId)
-  return plugin.loader(getAuth, providerInfo, setAuth)
+  const attributes = { 'openllmprovider.provider.id': providerInfo.id, 'openllmprovider.plugin': plugin.provider }
+  return withSpan('openllmprovider.plugin.load', attributes, async () => {
+    const options = await plugin.loader(getAuth, providerInfo, setAuth)
+    // requests the plugin rewrites or re-authenticates get their own spans
+    if (typeof options.fetch === 'function') {
+      options.fetch = traceFetch('openllmprovider.plugin.fetch', options.fetch as typeof globalThis.fetch, attributes)
+    }
+    return options
+  })
 }
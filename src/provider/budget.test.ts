@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'bun:test'
+import { BudgetExceededError } from '../types/errors.js'
+import type { BudgetWarning } from './budget.js'
+import { createBudgetGuard } from './budget.js'
+import type { UsageRecord } from './usage.js'
+
+function spend(cost: number, providerId = 'openai', modelId = 'gpt-4o'): UsageRecord {
+  return {
+    providerId,
+    modelId,
+    credential: 'auth',
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheReadTokens: 0,
+    cacheWriteTokens: 0,
+    reasoningTokens: 0,
+    cost,
+    timestamp: 0,
+  }
+}
+
+describe('createBudgetGuard', () => {
+  it('refuses calls once a provider cap is reached', () => {
+    const guard = createBudgetGuard({ providers: { openai: { daily: 1 } } })
+    guard.record(spend(0.6))
+    expect(() => guard.check('openai', 'gpt-4o')).not.toThrow()
+    guard.record(spend(0.6))
+    expect(() => guard.check('openai', 'gpt-4o')).toThrow(BudgetExceededError)
+    expect(() => guard.check('anthropic', 'claude')).not.toThrow()
+  })
+
+  it('counts spend of named accounts against the provider and model caps', () => {
+    const guard = createBudgetGuard({
+      providers: { openai: { daily: 1 }, 'openai:work': { daily: 0.5 } },
+      models: { 'openai/gpt-4o': { daily: 2 } },
+    })
+    guard.record(spend(0.6, 'openai:work'))
+    expect(() => guard.check('openai:work', 'gpt-4o')).toThrow(/for openai:work/)
+    expect(() => guard.check('openai', 'gpt-4o')).not.toThrow()
+    guard.record(spend(0.6, 'openai:personal'))
+    expect(() => guard.check('openai', 'gpt-4o')).toThrow(/for openai /)
+    expect(guard.status().find((s) => s.scope === 'openai/gpt-4o')?.spent).toBeCloseTo(1.2)
+  })
+
+  it('applies total and per-model caps', () => {
+    const guard = createBudgetGuard({ total: { monthly: 10 }, models: { 'openai/gpt-4o': { daily: 0.5 } } })
+    guard.record(spend(0.5))
+    expect(() => guard.check('openai', 'gpt-4o-mini')).not.toThrow()
+    try {
+      guard.check('openai', 'gpt-4o')
+      throw new Error('expected check to throw')
+    } catch (error) {
+      expect(error).toBeInstanceOf(BudgetExceededError)
+      expect((error as BudgetExceededError).scope).toBe('openai/gpt-4o')
+      expect((error as BudgetExceededError).code).toBe('BUDGET_EXCEEDED')
+    }
+    guard.record(spend(10, 'anthropic', 'claude'))
+    expect(() => guard.check('groq', 'llama')).toThrow(/Monthly budget of \$10 exceeded for total/)
+  })
+
+  it('fires each warning threshold once per window', () => {
+    const warnings: BudgetWarning[] = []
+    let now = Date.UTC(2026, 0, 1, 12)
+    const guard = createBudgetGuard({
+      providers: { openai: { daily: 10, warnAt: [0.5, 0.9] } },
+      onWarning: (w) => warnings.push(w),
+      now: () => now,
+    })
+    guard.record(spend(6))
+    guard.record(spend(1))
+    guard.record(spend(2))
+    expect(warnings.map((w) => w.threshold)).toEqual([0.5, 0.9])
+
+    now = Date.UTC(2026, 0, 2, 12)
+    expect(() => guard.check('openai', 'gpt-4o')).not.toThrow()
+    guard.record(spend(5))
+    expect(warnings.map((w) => w.threshold)).toEqual([0.5, 0.9, 0.5])
+  })
+
+  it('reports status for configured budgets', () => {
+    const guard = createBudgetGuard({ providers: { openai: { daily: 2, monthly: 20 } } })
+    guard.record(spend(1))
+    expect(guard.status()).toEqual([
+      { scope: 'openai', period: 'daily', spent: 1, limit: 2, remaining: 1, exceeded: false },
+      { scope: 'openai', period: 'monthly', spent: 1, limit: 20, remaining: 19, exceeded: false },
+    ])
+  })
+})
@@ -0,0 +1,206 @@
+import { parseAccountId } from '../catalog/alias.js'
+import { createLogger } from '../logger.js'
+import { BudgetExceededError } from '../types/errors.js'
+import type { SpendBudget } from '../types/provider.js'
+import type { LanguageModelMiddleware } from './middleware.js'
+import type { UsageRecord } from './usage.js'
+
+const log = createLogger('provider:budget')
+
+const DEFAULT_WARN_AT = [0.8]
+const TOTAL_SCOPE = 'total'
+
+export type BudgetPeriod = 'daily' | 'monthly'
+
+export interface BudgetConfig {
+  /** Cap across every provider and model */
+  total?: SpendBudget
+  /**
+   * Keyed by provider id or "provider:account"; takes precedence over
+   * `ProviderUserConfig.budget`. A provider's cap also covers its named accounts.
+   */
+  providers?: Record<string, SpendBudget>
+  /** Keyed by "provider/model", counting every account of the provider */
+  models?: Record<string, SpendBudget>
+  /** Fires once per threshold, scope and period window */
+  onWarning?: (warning: BudgetWarning) => void
+}
+
+export interface BudgetWarning {
+  /** 'total', a provider id, or "provider/model" */
+  scope: string
+  period: BudgetPeriod
+  threshold: number
+  spent: number
+  limit: number
+}
+
+export interface BudgetStatus {
+  scope: string
+  period: BudgetPeriod
+  spent: number
+  limit: number
+  remaining: number
+  exceeded: boolean
+}
+
+export interface BudgetGuard {
+  record(record: UsageRecord): void
+  /** Throws BudgetExceededError when a cap covering this model has been reached */
+  check(providerId: string, modelId: string): void
+  status(): BudgetStatus[]
+}
+
+export interface BudgetGuardOptions extends BudgetConfig {
+  now?: () => number
+}
+
+interface Ledger {
+  day: string
+  month: string
+  daily: number
+  monthly: number
+  /** "period:threshold" pairs already warned about in the current windows */
+  warned: Set<string>
+}
+
+function windows(timestamp: number): { day: string; month: string } {
+  const iso = new Date(timestamp).toISOString()
+  return { day: iso.slice(0, 10), month: iso.slice(0, 7) }
+}
+
+/**
+ * Tracks spend per scope (total, provider, model) in UTC day and month
+ * windows. The call that crosses a cap is allowed to finish since its cost is
+ * only known afterwards; calls after that are refused. Spend is kept in memory,
+ * so it starts from zero in every process.
+ */
+export function createBudgetGuard(options: BudgetGuardOptions): BudgetGuard {
+  const now = options.now ?? Date.now
+  const ledgers = new Map<string, Ledger>()
+
+  function budgetFor(scope: string): SpendBudget | undefined {
+    if (scope === TOTAL_SCOPE) return options.total
+    if (scope.includes('/')) return options.models?.[scope]
+    return options.providers?.[scope]
+  }
+
+  /** "openai:work" spends against its own cap and against the openai provider and model caps */
+  function scopesFor(providerId: string, modelId: string): string[] {
+    const baseId = parseAccountId(providerId).providerId
+    return [TOTAL_SCOPE, ...(baseId !== providerId ? [providerId] : []), baseId, `${baseId}/${modelId}`]
+  }
+
+  function ledgerFor(scope: string): Ledger {
+    const { day, month } = windows(now())
+    let ledger = ledgers.get(scope)
+    if (ledger === undefined) {
+      ledger = { day, month, daily: 0, monthly: 0, warned: new Set() }
+      ledgers.set(scope, ledger)
+    }
+    if (ledger.month !== month) {
+      ledger.month = month
+      ledger.monthly = 0
+      for (const key of [...ledger.warned]) if (key.startsWith('monthly:')) ledger.warned.delete(key)
+    }
+    if (ledger.day !== day) {
+      ledger.day = day
+      ledger.daily = 0
+      for (const key of [...ledger.warned]) if (key.startsWith('daily:')) ledger.warned.delete(key)
+    }
+    return ledger
+  }
+
+  function limitsOf(budget: SpendBudget): Array<[BudgetPeriod, number]> {
+    const limits: Array<[BudgetPeriod, number]> = []
+    if (budget.daily !== undefined) limits.push(['daily', budget.daily])
+    if (budget.monthly !== undefined) limits.push(['monthly', budget.monthly])
+    return limits
+  }
+
+  function warn(scope: string, budget: SpendBudget, ledger: Ledger): void {
+    for (const [period, limit] of limitsOf(budget)) {
+      const spent = ledger[period]
+      for (const threshold of budget.warnAt ?? DEFAULT_WARN_AT) {
+        const key = `${period}:${threshold}`
+        if (spent < limit * threshold || ledger.warned.has(key)) continue
+        ledger.warned.add(key)
+        log('%s %s spend $%d reached %d%% of $%d', scope, period, spent, threshold * 100, limit)
+        try {
+          options.onWarning?.({ scope, period, threshold, spent, limit })
+        } catch (err) {
+          log('budget warning callback failed: %s', err instanceof Error ? err.message : String(err))
+        }
+      }
+    }
+  }
+
+  return {
+    record(record: UsageRecord): void {
+      if (record.cost === undefined || record.cost === 0) return
+      for (const scope of scopesFor(record.providerId, record.modelId)) {
+        const budget = budgetFor(scope)
+        if (budget === undefined) continue
+        const ledger = ledgerFor(scope)
+        ledger.daily += record.cost
+        ledger.monthly += record.cost
+        warn(scope, budget, ledger)
+      }
+    },
+
+    check(providerId: string, modelId: string): void {
+      for (const scope of scopesFor(providerId, modelId)) {
+        const budget = budgetFor(scope)
+        if (budget === undefined) continue
+        const ledger = ledgerFor(scope)
+        for (const [period, limit] of limitsOf(budget)) {
+          const spent = ledger[period]
+          if (spent < limit) continue
+          throw new BudgetExceededError(
+            `${period === 'daily' ? 'Daily' : 'Monthly'} budget of $${limit} exceeded for ${scope} (spent $${spent.toFixed(4)})`,
+            { scope, period, spent, limit },
+            { providerID: providerId, modelId }
+          )
+        }
+      }
+    },
+
+    status(): BudgetStatus[] {
+      const scopes = new Set<string>([
+        ...(options.total !== undefined ? [TOTAL_SCOPE] : []),
+        ...Object.keys(options.providers ?? {}),
+        ...Object.keys(options.models ?? {}),
+      ])
+      const result: BudgetStatus[] = []
+      for (const scope of scopes) {
+        const budget = budgetFor(scope)
+        if (budget === undefined) continue
+        const ledger = ledgerFor(scope)
+        for (const [period, limit] of limitsOf(budget)) {
+          const spent = ledger[period]
+          result.push({ scope, period, spent, limit, remaining: Math.max(0, limit - spent), exceeded: spent >= limit })
+        }
+      }
+      return result
+    },
+  }
+}
+
+/** Refuses calls up front once a cap covering the model has been reached. */
+export function createBudgetMiddleware(
+  guard: BudgetGuard,
+  providerId: string,
+  modelId: string
+): LanguageModelMiddleware {
+  return {
+    specificationVersion: 'v3',
+    async wrapGenerate({ doGenerate }) {
+      guard.check(providerId, modelId)
+      return doGenerate()
+    },
+    async wrapStream({ doStream }) {
+      guard.check(providerId, modelId)
+      return doStream()
+    },
+  }
+}
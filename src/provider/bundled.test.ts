@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'bun:test'
+import type { ProviderFactory } from './bundled.js'
+import { getAllProviderPackages, isProviderInstalled, loadProvider, registerBundledProvider } from './bundled.js'
+
+const factory: ProviderFactory = () => ({ languageModel: () => ({}) as never })
+
+describe('registerBundledProvider', () => {
+  it('registers a factory under a package name', async () => {
+    registerBundledProvider('test-provider-factory', factory)
+    expect(await loadProvider('test-provider-factory')).toBe(factory)
+    expect(getAllProviderPackages()).toContain('test-provider-factory')
+  })
+
+  it('loads lazily and reports failing loaders as not installed', async () => {
+    let loads = 0
+    registerBundledProvider('test-provider-lazy', {
+      load: async () => {
+        loads++
+        return factory
+      },
+    })
+    expect(loads).toBe(0)
+    expect(await isProviderInstalled('test-provider-lazy')).toBe(true)
+    await loadProvider('test-provider-lazy')
+    expect(loads).toBe(1)
+
+    registerBundledProvider('test-provider-missing', { load: () => Promise.reject(new Error('Cannot find module')) })
+    expect(await isProviderInstalled('test-provider-missing')).toBe(false)
+  })
+
+  it('replaces an earlier registration', async () => {
+    const replacement: ProviderFactory = () => ({ languageModel: () => ({}) as never })
+    registerBundledProvider('test-provider-factory', replacement)
+    expect(await loadProvider('test-provider-factory')).toBe(replacement)
+  })
+})
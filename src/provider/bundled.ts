@@ -1,14 +1,36 @@
-import type { LanguageModelV3 } from '@ai-sdk/provider'
+import type {
+  EmbeddingModelV3,
+  ImageModelV3,
+  LanguageModelV3,
+  RerankingModelV3,
+  SpeechModelV3,
+  TranscriptionModelV3,
+} from '@ai-sdk/provider'
 import { createLogger } from '../logger.js'
 
 const log = createLogger('provider:bundled')
 
 export interface ProviderInstance {
   languageModel(modelId: string): LanguageModelV3
+  embeddingModel?(modelId: string): EmbeddingModelV3
+  /** Older SDK releases only expose the deprecated textEmbeddingModel() factory */
+  textEmbeddingModel?(modelId: string): EmbeddingModelV3
+  imageModel?(modelId: string): ImageModelV3
+  speechModel?(modelId: string): SpeechModelV3
+  transcriptionModel?(modelId: string): TranscriptionModelV3
+  /** Some SDKs (e.g. @ai-sdk/azure) only expose the speech()/transcription() shorthands */
+  speech?(modelId: string): SpeechModelV3
+  transcription?(modelId: string): TranscriptionModelV3
+  rerankingModel?(modelId: string): RerankingModelV3
 }
 
 export type ProviderFactory = (options: Record<string, unknown>) => ProviderInstance
 
+/** Loads a provider package on first use, e.g. `{ load: () => import('pkg').then((m) => m.createPkg) }` */
+export interface ProviderLoader {
+  load(): Promise<ProviderFactory>
+}
+
 const PROVIDER_LOADERS: Record<string, () => Promise<ProviderFactory>> = {
   '@ai-sdk/anthropic': () => import('@ai-sdk/anthropic').then((m) => m.createAnthropic as unknown as ProviderFactory),
   '@ai-sdk/openai': () => import('@ai-sdk/openai').then((m) => m.createOpenAI as unknown as ProviderFactory),
@@ -26,11 +48,36 @@ const PROVIDER_LOADERS: Record<string, () => Promise<ProviderFactory>> = {
   '@ai-sdk/groq': () => import('@ai-sdk/groq').then((m) => m.createGroq as unknown as ProviderFactory),
   '@openrouter/ai-sdk-provider': () =>
     import('@openrouter/ai-sdk-provider').then((m) => m.createOpenRouter as unknown as ProviderFactory),
+  '@ai-sdk/deepseek': () => import('@ai-sdk/deepseek').then((m) => m.createDeepSeek as unknown as ProviderFactory),
+  '@ai-sdk/cerebras': () => import('@ai-sdk/cerebras').then((m) => m.createCerebras as unknown as ProviderFactory),
+  '@ai-sdk/togetherai': () =>
+    import('@ai-sdk/togetherai').then((m) => m.createTogetherAI as unknown as ProviderFactory),
+  '@ai-sdk/fireworks': () => import('@ai-sdk/fireworks').then((m) => m.createFireworks as unknown as ProviderFactory),
+  '@ai-sdk/perplexity': () =>
+    import('@ai-sdk/perplexity').then((m) => m.createPerplexity as unknown as ProviderFactory),
+  '@ai-sdk/cohere': () => import('@ai-sdk/cohere').then((m) => m.createCohere as unknown as ProviderFactory),
+  '@ai-sdk/deepinfra': () => import('@ai-sdk/deepinfra').then((m) => m.createDeepInfra as unknown as ProviderFactory),
+  '@ai-sdk/baseten': () => import('@ai-sdk/baseten').then((m) => m.createBaseten as unknown as ProviderFactory),
+  '@ai-sdk/gateway': () => import('@ai-sdk/gateway').then((m) => m.createGateway as unknown as ProviderFactory),
+  '@ai-sdk/huggingface': () =>
+    import('@ai-sdk/huggingface').then((m) => m.createHuggingFace as unknown as ProviderFactory),
 }
 
 const loadedProviders = new Map<string, ProviderFactory>()
 const unavailableProviders = new Set<string>()
 
+/**
+ * Make a provider package usable as `bundledProvider` in catalog extend()
+ * config, with the same auth, catalog and plugin handling as the built-in
+ * packages. Registering a built-in name replaces it.
+ */
+export function registerBundledProvider(name: string, provider: ProviderFactory | ProviderLoader): void {
+  PROVIDER_LOADERS[name] = typeof provider === 'function' ? () => Promise.resolve(provider) : () => provider.load()
+  loadedProviders.delete(name)
+  unavailableProviders.delete(name)
+  log('registered provider package: %s', name)
+}
+
 export async function loadProvider(packageName: string): Promise<ProviderFactory | undefined> {
   if (loadedProviders.has(packageName)) return loadedProviders.get(packageName)
   if (unavailableProviders.has(packageName)) return undefined
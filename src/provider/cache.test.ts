@@ -0,0 +1,205 @@
+import { describe, expect, it } from 'bun:test'
+import type {
+  LanguageModelV3,
+  LanguageModelV3CallOptions,
+  LanguageModelV3GenerateResult,
+  LanguageModelV3StreamPart,
+} from '@ai-sdk/provider'
+import { MemoryStorage } from '../storage/memory.js'
+import type { ResponseCacheOptions } from './cache.js'
+import { computeCacheKey, createResponseCache } from './cache.js'
+import { wrapLanguageModel } from './middleware.js'
+
+const usage = {
+  inputTokens: { total: 1, noCache: 1, cacheRead: 0, cacheWrite: 0 },
+  outputTokens: { total: 1, text: 1, reasoning: undefined },
+}
+const stop = { unified: 'stop', raw: 'stop' } as const
+
+function prompt(text: string): LanguageModelV3CallOptions {
+  return { prompt: [{ role: 'user', content: [{ type: 'text', text }] }] }
+}
+
+interface FakeModelOptions {
+  text?: string
+  finishReason?: LanguageModelV3GenerateResult['finishReason']
+  streamParts?: LanguageModelV3StreamPart[]
+  /** Merged into every generate result */
+  result?: Partial<LanguageModelV3GenerateResult>
+}
+
+function fakeModel(options: FakeModelOptions = {}): LanguageModelV3 & { calls: number } {
+  const model = {
+    specificationVersion: 'v3' as const,
+    provider: 'fake.chat',
+    modelId: 'model',
+    supportedUrls: {},
+    calls: 0,
+    async doGenerate() {
+      model.calls++
+      return {
+        content: [{ type: 'text', text: options.text ?? `answer ${model.calls}` }],
+        finishReason: options.finishReason ?? stop,
+        usage,
+        warnings: [],
+        ...options.result,
+      } as LanguageModelV3GenerateResult
+    },
+    async doStream() {
+      model.calls++
+      const parts = options.streamParts ?? [
+        { type: 'text-delta', id: '1', delta: `chunk ${model.calls}` },
+        { type: 'finish', usage, finishReason: stop },
+      ]
+      return {
+        stream: new ReadableStream<LanguageModelV3StreamPart>({
+          start(controller) {
+            for (const part of parts) controller.enqueue(part)
+            controller.close()
+          },
+        }),
+      }
+    },
+  }
+  return model
+}
+
+function cached(model: LanguageModelV3, options: Partial<ResponseCacheOptions> = {}, scope = 'fake') {
+  const storage = options.storage ?? new MemoryStorage()
+  return wrapLanguageModel(model, createResponseCache({ storage, ...options }).middleware(scope))
+}
+
+function textOf(result: LanguageModelV3GenerateResult): string | undefined {
+  const [part] = result.content
+  return part?.type === 'text' ? part.text : undefined
+}
+
+async function readAll(stream: ReadableStream<LanguageModelV3StreamPart>): Promise<LanguageModelV3StreamPart[]> {
+  const parts: LanguageModelV3StreamPart[] = []
+  for await (const part of stream) parts.push(part)
+  return parts
+}
+
+describe('createResponseCache', () => {
+  it('serves identical calls from the cache and misses on different ones', async () => {
+    const model = fakeModel()
+    const wrapped = cached(model)
+    expect(textOf(await wrapped.doGenerate(prompt('hi')))).toBe('answer 1')
+    expect(textOf(await wrapped.doGenerate(prompt('hi')))).toBe('answer 1')
+    expect(textOf(await wrapped.doGenerate(prompt('bye')))).toBe('answer 2')
+    expect(model.calls).toBe(2)
+  })
+
+  it('keeps entries of different scopes apart', async () => {
+    const model = fakeModel()
+    const storage = new MemoryStorage()
+    await cached(model, { storage }, 'openai').doGenerate(prompt('hi'))
+    await cached(model, { storage }, 'openai:work').doGenerate(prompt('hi'))
+    expect(model.calls).toBe(2)
+  })
+
+  it('expires entries after ttlMs', async () => {
+    const model = fakeModel()
+    const wrapped = cached(model, { ttlMs: 10 })
+    await wrapped.doGenerate(prompt('hi'))
+    await Bun.sleep(20)
+    expect(textOf(await wrapped.doGenerate(prompt('hi')))).toBe('answer 2')
+  })
+
+  it('evicts the oldest entries beyond maxEntries', async () => {
+    const model = fakeModel()
+    const wrapped = cached(model, { maxEntries: 2 })
+    for (const text of ['a', 'b', 'c']) {
+      await wrapped.doGenerate(prompt(text))
+      await Bun.sleep(2)
+    }
+    await wrapped.doGenerate(prompt('c'))
+    expect(model.calls).toBe(3)
+    await wrapped.doGenerate(prompt('a'))
+    expect(model.calls).toBe(4)
+  })
+
+  it('skips entries over maxEntryBytes, counting UTF-8 bytes', async () => {
+    const storage = new MemoryStorage()
+    await cached(fakeModel({ text: '€'.repeat(200) }), { storage }).doGenerate(prompt('hi'))
+    const [key] = (await storage.list()).filter((k) => !k.endsWith('index'))
+    const entry = (await storage.get(key as string)) ?? ''
+
+    // The entry fits in UTF-16 code units but each € is 3 bytes
+    const model = fakeModel({ text: '€'.repeat(200) })
+    const wrapped = cached(model, { maxEntryBytes: entry.length })
+    await wrapped.doGenerate(prompt('hi'))
+    await wrapped.doGenerate(prompt('hi'))
+    expect(model.calls).toBe(2)
+  })
+
+  it('treats an unreadable entry as a miss', async () => {
+    const storage = new MemoryStorage()
+    const model = fakeModel()
+    const params = prompt('hi')
+    await storage.set(computeCacheKey('fake', model.provider, model.modelId, 'generate', params), '{not json')
+    expect(textOf(await cached(model, { storage }).doGenerate(params))).toBe('answer 1')
+  })
+
+  it('revives response timestamps only', async () => {
+    const timestamp = new Date('2026-01-01T00:00:00Z')
+    const providerMetadata = { fake: { timestamp: '2026-01-01T00:00:00Z' } }
+    const storage = new MemoryStorage()
+    const model = fakeModel({ result: { response: { id: 'r1', timestamp }, providerMetadata } })
+    await cached(model, { storage }).doGenerate(prompt('hi'))
+    const hit = await cached(model, { storage }).doGenerate(prompt('hi'))
+    expect(model.calls).toBe(1)
+    expect(hit.response?.timestamp).toEqual(timestamp)
+    expect(hit.providerMetadata).toEqual(providerMetadata)
+
+    const streamed = fakeModel({
+      streamParts: [
+        { type: 'response-metadata', id: 'r1', timestamp },
+        { type: 'tool-input-delta', id: 't1', delta: '{}', providerMetadata },
+        { type: 'finish', usage, finishReason: stop },
+      ],
+    })
+    await readAll((await cached(streamed, { storage }).doStream(prompt('hi'))).stream)
+    const [metadata, delta] = await readAll((await cached(streamed, { storage }).doStream(prompt('hi'))).stream)
+    expect(streamed.calls).toBe(1)
+    expect(metadata).toEqual({ type: 'response-metadata', id: 'r1', timestamp })
+    expect(delta).toEqual({ type: 'tool-input-delta', id: 't1', delta: '{}', providerMetadata })
+  })
+
+  it('does not cache error results', async () => {
+    const model = fakeModel({ finishReason: { unified: 'error', raw: 'error' } })
+    const wrapped = cached(model)
+    await wrapped.doGenerate(prompt('hi'))
+    await wrapped.doGenerate(prompt('hi'))
+    expect(model.calls).toBe(2)
+  })
+
+  it('replays completed streams', async () => {
+    const model = fakeModel()
+    const wrapped = cached(model)
+    const first = await readAll((await wrapped.doStream(prompt('hi'))).stream)
+    const second = await readAll((await wrapped.doStream(prompt('hi'))).stream)
+    expect(second).toEqual(first)
+    expect(model.calls).toBe(1)
+  })
+
+  it('does not cache failed or unfinished streams', async () => {
+    const failed = fakeModel({
+      streamParts: [
+        { type: 'text-delta', id: '1', delta: 'partial' },
+        { type: 'error', error: new Error('boom') },
+        { type: 'finish', usage, finishReason: stop },
+      ],
+    })
+    const wrappedFailed = cached(failed)
+    await readAll((await wrappedFailed.doStream(prompt('hi'))).stream)
+    await readAll((await wrappedFailed.doStream(prompt('hi'))).stream)
+    expect(failed.calls).toBe(2)
+
+    const unfinished = fakeModel({ streamParts: [{ type: 'text-delta', id: '1', delta: 'partial' }] })
+    const wrappedUnfinished = cached(unfinished)
+    await readAll((await wrappedUnfinished.doStream(prompt('hi'))).stream)
+    await readAll((await wrappedUnfinished.doStream(prompt('hi'))).stream)
+    expect(unfinished.calls).toBe(2)
+  })
+})
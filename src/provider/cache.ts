@@ -0,0 +1,254 @@
+import { createHash } from 'node:crypto'
+import type {
+  LanguageModelV3CallOptions,
+  LanguageModelV3GenerateResult,
+  LanguageModelV3StreamPart,
+} from '@ai-sdk/provider'
+import { createLogger } from '../logger.js'
+import type { StorageAdapter } from '../storage/index.js'
+import type { LanguageModelMiddleware } from './middleware.js'
+
+const log = createLogger('provider:cache')
+
+const KEY_PREFIX = 'response-cache-'
+const INDEX_KEY = `${KEY_PREFIX}index`
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000
+const DEFAULT_MAX_ENTRIES = 1000
+const DEFAULT_MAX_ENTRY_BYTES = 1024 * 1024
+
+export interface ResponseCacheOptions {
+  storage: StorageAdapter
+  /** Entry lifetime (default 24h) */
+  ttlMs?: number
+  /** Oldest entries are evicted beyond this count (default 1000) */
+  maxEntries?: number
+  /** Responses larger than this, once serialized, are not cached (default 1 MiB) */
+  maxEntryBytes?: number
+  /** Record completed streams and replay them on identical doStream calls (default true) */
+  streams?: boolean
+}
+
+interface CacheEntry {
+  kind: 'generate' | 'stream'
+  createdAt: number
+  expiresAt: number
+  value: unknown
+}
+
+type CacheIndex = Record<string, { createdAt: number; expiresAt: number }>
+
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, v: unknown) => {
+    if (v instanceof Uint8Array) return { __bytes: Buffer.from(v).toString('base64') }
+    if (v !== null && typeof v === 'object' && !Array.isArray(v)) {
+      const sorted: Record<string, unknown> = {}
+      for (const k of Object.keys(v).sort()) sorted[k] = (v as Record<string, unknown>)[k]
+      return sorted
+    }
+    return v
+  })
+}
+
+function serialize(value: unknown): string {
+  return JSON.stringify(value, (_key, v: unknown) =>
+    v instanceof Uint8Array ? { __bytes: Buffer.from(v).toString('base64') } : v
+  )
+}
+
+function deserialize(raw: string): unknown {
+  return JSON.parse(raw, (_key, v: unknown) => {
+    if (v !== null && typeof v === 'object' && typeof (v as { __bytes?: unknown }).__bytes === 'string') {
+      return new Uint8Array(Buffer.from((v as { __bytes: string }).__bytes, 'base64'))
+    }
+    return v
+  })
+}
+
+function reviveTimestamp(metadata: unknown): void {
+  const meta = metadata as { timestamp?: unknown } | null | undefined
+  if (typeof meta?.timestamp === 'string') meta.timestamp = new Date(meta.timestamp)
+}
+
+/**
+ * Response metadata timestamps are Date objects in the V3 spec. Only those are
+ * revived: a `timestamp` key in provider metadata or tool data stays as it was.
+ */
+function reviveTimestamps(entry: CacheEntry): CacheEntry {
+  if (entry.kind === 'generate') reviveTimestamp((entry.value as { response?: unknown } | null)?.response)
+  else if (Array.isArray(entry.value)) {
+    for (const part of entry.value as LanguageModelV3StreamPart[]) {
+      if (part.type === 'response-metadata') reviveTimestamp(part)
+    }
+  }
+  return entry
+}
+
+/**
+ * `scope` is the store provider id ("openai:work"), so named accounts and
+ * providers sharing an SDK never see each other's entries.
+ */
+export function computeCacheKey(
+  scope: string,
+  provider: string,
+  modelId: string,
+  type: 'generate' | 'stream',
+  params: LanguageModelV3CallOptions
+): string {
+  const { abortSignal: _abortSignal, ...cacheable } = params
+  const digest = createHash('sha256')
+    .update(stableStringify({ scope, provider, modelId, type, params: cacheable }))
+    .digest('hex')
+  return `${KEY_PREFIX}${digest}`
+}
+
+function replayStream(parts: LanguageModelV3StreamPart[]): ReadableStream<LanguageModelV3StreamPart> {
+  return new ReadableStream<LanguageModelV3StreamPart>({
+    start(controller) {
+      for (const part of parts) controller.enqueue(part)
+      controller.close()
+    },
+  })
+}
+
+export interface ResponseCache {
+  /**
+   * Middleware whose entries are keyed by `scope` as well, defaulting to the
+   * SDK provider name. All scopes share one index and entry limit.
+   */
+  middleware(scope?: string): LanguageModelMiddleware
+}
+
+/**
+ * Cache doGenerate results, and replay recorded doStream calls, through a
+ * StorageAdapter. Calls are keyed by a hash of scope, provider, model, call
+ * type and call options. Only successful responses are stored.
+ */
+export function createResponseCache(options: ResponseCacheOptions): ResponseCache {
+  const { storage } = options
+  const ttlMs = options.ttlMs ?? DEFAULT_TTL_MS
+  const maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES
+  const maxEntryBytes = options.maxEntryBytes ?? DEFAULT_MAX_ENTRY_BYTES
+  const cacheStreams = options.streams ?? true
+  let indexPromise: Promise<CacheIndex> | undefined
+  let writeQueue: Promise<void> = Promise.resolve()
+
+  function loadIndex(): Promise<CacheIndex> {
+    if (indexPromise === undefined) {
+      indexPromise = storage
+        .get(INDEX_KEY)
+        .then((raw) => (raw === null ? {} : (JSON.parse(raw) as CacheIndex)))
+        .catch((err) => {
+          log('failed to read cache index: %s', err instanceof Error ? err.message : String(err))
+          return {}
+        })
+    }
+    return indexPromise
+  }
+
+  async function read(key: string): Promise<CacheEntry | undefined> {
+    const raw = await storage.get(key).catch(() => null)
+    if (raw === null) return undefined
+    let entry: CacheEntry
+    try {
+      entry = reviveTimestamps(deserialize(raw) as CacheEntry)
+    } catch (err) {
+      log('unreadable entry %s, treating as a miss: %s', key, err instanceof Error ? err.message : String(err))
+      return undefined
+    }
+    if (entry.expiresAt <= Date.now()) {
+      log('expired: %s', key)
+      return undefined
+    }
+    return entry
+  }
+
+  function write(key: string, kind: CacheEntry['kind'], value: unknown): Promise<void> {
+    const createdAt = Date.now()
+    const entry: CacheEntry = { kind, createdAt, expiresAt: createdAt + ttlMs, value }
+    const payload = serialize(entry)
+    const bytes = Buffer.byteLength(payload)
+    if (bytes > maxEntryBytes) {
+      log('skipping %s: %d bytes exceeds limit', key, bytes)
+      return Promise.resolve()
+    }
+
+    // Serialize index updates so concurrent writes don't drop each other
+    writeQueue = writeQueue.then(async () => {
+      try {
+        const index = await loadIndex()
+        await storage.set(key, payload)
+        index[key] = { createdAt, expiresAt: entry.expiresAt }
+
+        const now = Date.now()
+        const live = Object.entries(index).sort(([, a], [, b]) => a.createdAt - b.createdAt)
+        const overflow = live.length - maxEntries
+        for (const [i, [k, meta]] of live.entries()) {
+          if (i < overflow || meta.expiresAt <= now) {
+            delete index[k]
+            await storage.remove(k)
+          }
+        }
+        await storage.set(INDEX_KEY, JSON.stringify(index))
+        log('stored %s (%d entries)', key, Object.keys(index).length)
+      } catch (err) {
+        log('failed to write cache entry: %s', err instanceof Error ? err.message : String(err))
+      }
+    })
+    return writeQueue
+  }
+
+  const middleware = (scope?: string): LanguageModelMiddleware => ({
+    specificationVersion: 'v3',
+
+    async wrapGenerate({ doGenerate, params, model }) {
+      const key = computeCacheKey(scope ?? model.provider, model.provider, model.modelId, 'generate', params)
+      const cached = await read(key)
+      if (cached?.kind === 'generate') {
+        log('hit: %s/%s', model.provider, model.modelId)
+        return cached.value as LanguageModelV3GenerateResult
+      }
+
+      const result = await doGenerate()
+      if (result.finishReason.unified !== 'error') {
+        const { request: _request, response, ...rest } = result
+        const { body: _body, ...responseMeta } = response ?? {}
+        await write(key, 'generate', { ...rest, ...(response !== undefined ? { response: responseMeta } : {}) })
+      }
+      return result
+    },
+
+    async wrapStream({ doStream, params, model }) {
+      if (!cacheStreams) return doStream()
+
+      const key = computeCacheKey(scope ?? model.provider, model.provider, model.modelId, 'stream', params)
+      const cached = await read(key)
+      if (cached?.kind === 'stream') {
+        log('replay: %s/%s', model.provider, model.modelId)
+        return { stream: replayStream(cached.value as LanguageModelV3StreamPart[]) }
+      }
+
+      const result = await doStream()
+      const parts: LanguageModelV3StreamPart[] = []
+      let failed = false
+      const recorder = new TransformStream<LanguageModelV3StreamPart, LanguageModelV3StreamPart>({
+        transform(part, controller) {
+          if (part.type === 'error') failed = true
+          if (part.type !== 'raw') parts.push(part)
+          controller.enqueue(part)
+        },
+        async flush() {
+          const finished = parts.some((p) => p.type === 'finish')
+          if (!failed && finished) await write(key, 'stream', parts)
+        },
+      })
+      return { ...result, stream: result.stream.pipeThrough(recorder) }
+    },
+  })
+
+  return { middleware }
+}
+
+/** A response cache middleware for use outside a provider store, keyed by the SDK provider name */
+export function createResponseCacheMiddleware(options: ResponseCacheOptions): LanguageModelMiddleware {
+  return createResponseCache(options).middleware()
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'bun:test'
+import { ProviderUnavailableError } from '../types/errors.js'
+import { createCircuitBreaker, isProviderFailure } from './circuit.js'
+
+function httpError(statusCode: number): Error {
+  return Object.assign(new Error(`HTTP ${statusCode}`), { statusCode })
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+describe('isProviderFailure', () => {
+  it('counts outages but not rate limits or request errors', () => {
+    expect(isProviderFailure(httpError(503))).toBe(true)
+    expect(isProviderFailure(httpError(408))).toBe(true)
+    expect(isProviderFailure(new TypeError('fetch failed'))).toBe(true)
+    expect(isProviderFailure(httpError(429))).toBe(false)
+    expect(isProviderFailure(httpError(400))).toBe(false)
+  })
+})
+
+describe('createCircuitBreaker', () => {
+  it('reports degraded health after a failure and opens at the threshold', () => {
+    const breaker = createCircuitBreaker({ failureThreshold: 3 })
+    breaker.recordSuccess('openai')
+    breaker.recordFailure('openai')
+    expect(breaker.status('openai').health).toBe('degraded')
+
+    breaker.recordFailure('openai')
+    breaker.recordFailure('openai')
+    expect(breaker.status('openai')).toMatchObject({ state: 'open', health: 'down', failures: 3 })
+    expect(() => breaker.acquire('openai')).toThrow(ProviderUnavailableError)
+    expect(breaker.status('anthropic').health).toBe('healthy')
+  })
+
+  it('stays closed while the failure rate is below the limit', () => {
+    const breaker = createCircuitBreaker({ failureThreshold: 2, failureRate: 0.5 })
+    for (let i = 0; i < 5; i++) breaker.recordSuccess('openai')
+    breaker.recordFailure('openai')
+    breaker.recordFailure('openai')
+    expect(breaker.status('openai').state).toBe('closed')
+  })
+
+  it('lets one trial through after the cooldown and closes on success', async () => {
+    const breaker = createCircuitBreaker({ failureThreshold: 1, cooldownMs: 10 })
+    breaker.recordFailure('openai')
+    expect(breaker.canRequest('openai')).toBe(false)
+
+    await sleep(15)
+    expect(breaker.canRequest('openai')).toBe(true)
+    breaker.acquire('openai')
+    expect(breaker.status('openai').state).toBe('half-open')
+    expect(() => breaker.acquire('openai')).toThrow(ProviderUnavailableError)
+
+    breaker.recordSuccess('openai')
+    expect(breaker.status('openai')).toMatchObject({ state: 'closed', health: 'healthy' })
+  })
+
+  it('re-opens when the trial fails', async () => {
+    const breaker = createCircuitBreaker({ failureThreshold: 1, cooldownMs: 10 })
+    breaker.recordFailure('openai')
+    await sleep(15)
+    breaker.acquire('openai')
+    breaker.recordFailure('openai')
+    expect(breaker.status('openai').state).toBe('open')
+    expect(() => breaker.assertAvailable('openai')).toThrow(ProviderUnavailableError)
+  })
+})
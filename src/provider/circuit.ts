@@ -0,0 +1,212 @@
+import type { LanguageModelV3StreamPart } from '@ai-sdk/provider'
+import { createLogger } from '../logger.js'
+import { ProviderUnavailableError } from '../types/errors.js'
+import { errorStatusCode, isNetworkError } from './http.js'
+import type { LanguageModelMiddleware } from './middleware.js'
+
+const log = createLogger('provider:circuit')
+
+const DEFAULT_WINDOW_MS = 60_000
+const DEFAULT_FAILURE_THRESHOLD = 5
+const DEFAULT_FAILURE_RATE = 0.5
+const DEFAULT_COOLDOWN_MS = 30_000
+
+export type ProviderHealth = 'healthy' | 'degraded' | 'down'
+export type CircuitState = 'closed' | 'open' | 'half-open'
+
+export interface CircuitBreakerOptions {
+  /** Sliding window over which outcomes are counted (default 60s) */
+  windowMs?: number
+  /** Failures within the window before the circuit can open (default 5) */
+  failureThreshold?: number
+  /** Share of failed requests within the window required to open (default 0.5) */
+  failureRate?: number
+  /** How long the circuit stays open before a trial request is let through (default 30s) */
+  cooldownMs?: number
+}
+
+export interface CircuitStatus {
+  state: CircuitState
+  health: ProviderHealth
+  /** Requests and failures within the window */
+  requests: number
+  failures: number
+  /** Set while open: when the next trial request is allowed */
+  retryAt?: number
+}
+
+export interface CircuitBreaker {
+  /** False while the circuit is open and cooling down */
+  canRequest(providerId: string): boolean
+  /** Throws ProviderUnavailableError while the circuit is open and cooling down */
+  assertAvailable(providerId: string): void
+  /** Like assertAvailable, but claims the trial slot of a half-open circuit */
+  acquire(providerId: string): void
+  recordSuccess(providerId: string): void
+  recordFailure(providerId: string): void
+  status(providerId: string): CircuitStatus
+}
+
+interface Circuit {
+  state: CircuitState
+  outcomes: Array<{ at: number; ok: boolean }>
+  openedAt: number
+  probeStartedAt?: number
+}
+
+/** Outages count against a provider; rate limits and request errors do not. */
+export function isProviderFailure(error: unknown): boolean {
+  const status = errorStatusCode(error)
+  if (status !== undefined) return status >= 500 || status === 408
+  return isNetworkError(error)
+}
+
+/**
+ * Per-provider circuit breaker. The circuit opens once the failures within the
+ * window reach both the threshold and the failure rate. After the cooldown a
+ * single trial request is let through: success closes the circuit and failure
+ * re-opens it.
+ */
+export function createCircuitBreaker(options: CircuitBreakerOptions = {}): CircuitBreaker {
+  const windowMs = options.windowMs ?? DEFAULT_WINDOW_MS
+  const failureThreshold = options.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD
+  const failureRate = options.failureRate ?? DEFAULT_FAILURE_RATE
+  const cooldownMs = options.cooldownMs ?? DEFAULT_COOLDOWN_MS
+  const circuits = new Map<string, Circuit>()
+
+  function circuitFor(providerId: string): Circuit {
+    let circuit = circuits.get(providerId)
+    if (circuit === undefined) {
+      circuit = { state: 'closed', outcomes: [], openedAt: 0 }
+      circuits.set(providerId, circuit)
+    }
+    const cutoff = Date.now() - windowMs
+    while (circuit.outcomes.length > 0 && (circuit.outcomes[0]?.at ?? 0) < cutoff) circuit.outcomes.shift()
+    return circuit
+  }
+
+  function open(providerId: string, circuit: Circuit): void {
+    circuit.state = 'open'
+    circuit.openedAt = Date.now()
+    circuit.probeStartedAt = undefined
+    log('%s: circuit open for %dms', providerId, cooldownMs)
+  }
+
+  /** A trial is possible once the cooldown has passed and no other trial is in flight */
+  function trialAvailable(circuit: Circuit): boolean {
+    const now = Date.now()
+    if (now - circuit.openedAt < cooldownMs) return false
+    // a trial that never reported back (e.g. an abandoned stream) frees its slot after another cooldown
+    return circuit.probeStartedAt === undefined || now - circuit.probeStartedAt >= cooldownMs
+  }
+
+  function unavailable(providerId: string, circuit: Circuit): ProviderUnavailableError {
+    const retryAfterMs = Math.max(0, circuit.openedAt + cooldownMs - Date.now())
+    return new ProviderUnavailableError(
+      `Provider ${providerId} is unavailable after repeated failures; retry in ${Math.ceil(retryAfterMs / 1000)}s`,
+      retryAfterMs,
+      { providerID: providerId }
+    )
+  }
+
+  return {
+    canRequest(providerId: string): boolean {
+      const circuit = circuitFor(providerId)
+      return circuit.state === 'closed' || trialAvailable(circuit)
+    },
+
+    assertAvailable(providerId: string): void {
+      const circuit = circuitFor(providerId)
+      if (circuit.state !== 'closed' && !trialAvailable(circuit)) throw unavailable(providerId, circuit)
+    },
+
+    acquire(providerId: string): void {
+      const circuit = circuitFor(providerId)
+      if (circuit.state === 'closed') return
+      if (!trialAvailable(circuit)) throw unavailable(providerId, circuit)
+      circuit.state = 'half-open'
+      circuit.probeStartedAt = Date.now()
+      log('%s: circuit half-open, letting a trial request through', providerId)
+    },
+
+    recordSuccess(providerId: string): void {
+      const circuit = circuitFor(providerId)
+      if (circuit.state !== 'closed') {
+        log('%s: trial request succeeded, circuit closed', providerId)
+        circuit.state = 'closed'
+        circuit.outcomes = []
+        circuit.probeStartedAt = undefined
+      }
+      circuit.outcomes.push({ at: Date.now(), ok: true })
+    },
+
+    recordFailure(providerId: string): void {
+      const circuit = circuitFor(providerId)
+      circuit.outcomes.push({ at: Date.now(), ok: false })
+      if (circuit.state === 'half-open') {
+        open(providerId, circuit)
+        return
+      }
+      if (circuit.state === 'open') return
+      const failures = circuit.outcomes.filter((o) => !o.ok).length
+      if (failures >= failureThreshold && failures / circuit.outcomes.length >= failureRate) open(providerId, circuit)
+    },
+
+    status(providerId: string): CircuitStatus {
+      const circuit = circuitFor(providerId)
+      const failures = circuit.outcomes.filter((o) => !o.ok).length
+      const health: ProviderHealth = circuit.state !== 'closed' ? 'down' : failures > 0 ? 'degraded' : 'healthy'
+      return {
+        state: circuit.state,
+        health,
+        requests: circuit.outcomes.length,
+        failures,
+        ...(circuit.state !== 'closed' ? { retryAt: circuit.openedAt + cooldownMs } : {}),
+      }
+    },
+  }
+}
+
+/** Fails fast while the provider's circuit is open and reports call outcomes to the breaker. */
+export function createCircuitBreakerMiddleware(breaker: CircuitBreaker, providerId: string): LanguageModelMiddleware {
+  function fail(error: unknown): void {
+    if (isProviderFailure(error)) breaker.recordFailure(providerId)
+    // any other HTTP error still shows the provider is up and answering
+    else if (errorStatusCode(error) !== undefined) breaker.recordSuccess(providerId)
+  }
+
+  return {
+    specificationVersion: 'v3',
+
+    async wrapGenerate({ doGenerate }) {
+      breaker.acquire(providerId)
+      try {
+        const result = await doGenerate()
+        breaker.recordSuccess(providerId)
+        return result
+      } catch (error) {
+        fail(error)
+        throw error
+      }
+    },
+
+    async wrapStream({ doStream }) {
+      breaker.acquire(providerId)
+      let result: Awaited<ReturnType<typeof doStream>>
+      try {
+        result = await doStream()
+      } catch (error) {
+        fail(error)
+        throw error
+      }
+      const monitor = new TransformStream<LanguageModelV3StreamPart, LanguageModelV3StreamPart>({
+        transform(part, controller) {
+          if (part.type === 'finish') breaker.recordSuccess(providerId)
+          if (part.type === 'error') fail(part.error)
+          controller.enqueue(part)
+        },
+      })
+      return { ...result, stream: result.stream.pipeThrough(monitor) }
+    },
+  }
+}
@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'bun:test'
+import { APICallError } from '@ai-sdk/provider'
+import {
+  AuthError,
+  AuthExpiredError,
+  ContentFilteredError,
+  ContextLengthExceededError,
+  ModelNotFoundError,
+  QuotaExhaustedError,
+  RateLimitError,
+  UpstreamError,
+} from '../types/errors.js'
+import { classifyUpstreamFailure, createClassifyingFetch } from './classify.js'
+
+function classify(status: number, body: unknown, options: { headers?: Record<string, string>; oauth?: boolean } = {}) {
+  return classifyUpstreamFailure({
+    status,
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+    headers: new Headers(options.headers),
+    providerId: 'openai',
+    modelId: 'gpt-4o',
+    oauth: options.oauth,
+  })
+}
+
+describe('classifyUpstreamFailure', () => {
+  it('separates rate limits from exhausted quotas', () => {
+    const limited = classify(
+      429,
+      { error: { message: 'Rate limit reached', type: 'requests' } },
+      {
+        headers: { 'retry-after': '7' },
+      }
+    )
+    expect(limited).toBeInstanceOf(RateLimitError)
+    expect(limited).toMatchObject({ retryable: true, retryAfterMs: 7000, statusCode: 429 })
+
+    const quota = classify(429, {
+      error: { message: 'You exceeded your current quota', type: 'insufficient_quota', code: 'insufficient_quota' },
+    })
+    expect(quota).toBeInstanceOf(QuotaExhaustedError)
+    expect(quota.retryable).toBe(false)
+
+    const anthropicCredits = classify(400, {
+      type: 'error',
+      error: { type: 'invalid_request_error', message: 'Your credit balance is too low to access the Anthropic API.' },
+    })
+    expect(anthropicCredits).toBeInstanceOf(QuotaExhaustedError)
+  })
+
+  it('treats Google per-minute RESOURCE_EXHAUSTED as a rate limit', () => {
+    const error = classify(429, {
+      error: { code: 429, status: 'RESOURCE_EXHAUSTED', message: 'Quota exceeded for quota metric per minute' },
+    })
+    expect(error).toBeInstanceOf(RateLimitError)
+  })
+
+  it('treats Google per-day RESOURCE_EXHAUSTED as an exhausted quota', () => {
+    const error = classify(429, {
+      error: {
+        code: 429,
+        status: 'RESOURCE_EXHAUSTED',
+        message:
+          'You exceeded your current quota, please check your plan and billing details. Quota exceeded for metric: generativelanguage.googleapis.com/generate_content_free_tier_requests, limit: 50 per day',
+      },
+    })
+    expect(error).toBeInstanceOf(QuotaExhaustedError)
+    expect(error.retryable).toBe(false)
+  })
+
+  it('recognizes context length and content filter failures', () => {
+    expect(
+      classify(400, {
+        error: { message: "This model's maximum context length is 128000 tokens", code: 'context_length_exceeded' },
+      })
+    ).toBeInstanceOf(ContextLengthExceededError)
+    expect(
+      classify(400, {
+        type: 'error',
+        error: { type: 'invalid_request_error', message: 'prompt is too long: 210000 tokens > 200000 maximum' },
+      })
+    ).toBeInstanceOf(ContextLengthExceededError)
+    const filtered = classify(400, { error: { message: 'The response was filtered', code: 'content_filter' } })
+    expect(filtered).toBeInstanceOf(ContentFilteredError)
+    expect(filtered.retryable).toBe(false)
+  })
+
+  it('tells expired OAuth tokens from bad keys', () => {
+    expect(classify(401, { error: { message: 'Incorrect API key provided' } })).toBeInstanceOf(AuthError)
+    expect(classify(401, { error: { message: 'Unauthorized' } }, { oauth: true })).toBeInstanceOf(AuthExpiredError)
+    expect(classify(401, { error: { message: 'token expired' } })).toBeInstanceOf(AuthExpiredError)
+  })
+
+  it('maps unknown models and falls back to a generic upstream error', () => {
+    const missing = classify(404, { error: { message: 'The model `gpt-9` does not exist', code: 'model_not_found' } })
+    expect(missing).toBeInstanceOf(ModelNotFoundError)
+    expect(missing.message).toBe('openai/gpt-4o: The model `gpt-9` does not exist')
+
+    const overloaded = classify(529, { type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } })
+    expect(overloaded).toBeInstanceOf(UpstreamError)
+    expect(overloaded.retryable).toBe(true)
+    expect(classify(422, 'Unprocessable').retryable).toBe(false)
+  })
+})
+
+describe('createClassifyingFetch', () => {
+  it('throws typed errors with the request model and passes successes through', async () => {
+    let status = 200
+    const inner = (async () =>
+      new Response('{"error":{"message":"Rate limit reached"}}', { status })) as unknown as typeof globalThis.fetch
+    const fetch = createClassifyingFetch(inner, { providerId: 'groq' })
+
+    expect((await fetch('https://api.groq.com/openai/v1/chat/completions')).status).toBe(200)
+
+    status = 429
+    const error = await fetch('https://api.groq.com/openai/v1/chat/completions', {
+      method: 'POST',
+      body: JSON.stringify({ model: 'llama-3.3-70b', messages: [] }),
+    }).catch((e: unknown) => e)
+    expect(error).toBeInstanceOf(RateLimitError)
+    expect(error).toMatchObject({ providerID: 'groq', modelId: 'llama-3.3-70b', statusCode: 429 })
+  })
+
+  it('throws errors that pass as the SDK APICallError', async () => {
+    const inner = (async () =>
+      new Response('{"error":{"message":"overloaded"}}', { status: 503 })) as unknown as typeof globalThis.fetch
+    const url = 'https://api.groq.com/openai/v1/chat/completions'
+    const error = await createClassifyingFetch(inner, { providerId: 'groq' })(url, {
+      method: 'POST',
+      body: '{"model":"llama-3.3-70b"}',
+    }).catch((e: unknown) => e)
+    expect(error).toBeInstanceOf(UpstreamError)
+    expect(APICallError.isInstance(error)).toBe(true)
+    expect(error).toMatchObject({ url, requestBodyValues: { model: 'llama-3.3-70b' }, isRetryable: true })
+  })
+
+  it('keeps the SDK from retrying once the wrapped fetch has', async () => {
+    const inner = (async () =>
+      new Response('{"error":{"message":"overloaded"}}', { status: 503 })) as unknown as typeof globalThis.fetch
+    const error = await createClassifyingFetch(inner, { providerId: 'groq', retried: true })(
+      'https://api.groq.com/openai/v1/chat/completions'
+    ).catch((e: unknown) => e)
+    expect(error).toMatchObject({ retryable: true, isRetryable: false })
+  })
+})
@@ -0,0 +1,193 @@
+import { createLogger } from '../logger.js'
+import {
+  AuthError,
+  AuthExpiredError,
+  ContentFilteredError,
+  ContextLengthExceededError,
+  ModelNotFoundError,
+  type OpenLLMProviderError,
+  QuotaExhaustedError,
+  RateLimitError,
+  UpstreamError,
+} from '../types/errors.js'
+import { isRetryableStatus, retryDelayFromHeaders } from './retry.js'
+
+const log = createLogger('provider:classify')
+
+const MAX_BODY_LENGTH = 2000
+
+export interface UpstreamFailure {
+  status: number
+  body: string
+  headers: Headers
+  providerId: string
+  modelId?: string
+  /** The request used an OAuth token, so a 401 means it expired rather than being wrong */
+  oauth?: boolean
+}
+
+interface VendorError {
+  message?: string
+  /** Lowercased vendor code/type/status, e.g. "insufficient_quota" or "resource_exhausted" */
+  codes: string[]
+}
+
+/**
+ * Pull the message and codes out of the error shapes in use: OpenAI-style
+ * `{ error: { message, type, code } }`, Anthropic `{ error: { type, message } }`,
+ * Google `{ error: { status, message } }` and flat `{ message, detail }`.
+ */
+function readVendorError(body: string): VendorError {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(body)
+  } catch {
+    return { message: body.trim() || undefined, codes: [] }
+  }
+  const root = (Array.isArray(parsed) ? parsed[0] : parsed) as Record<string, unknown> | string | null
+  if (typeof root === 'string') return { message: root, codes: [] }
+  if (root === null || typeof root !== 'object') return { codes: [] }
+  const inner = typeof root.error === 'object' && root.error !== null ? (root.error as Record<string, unknown>) : root
+  const message = [inner.message, root.message, root.detail, root.error].find(
+    (value): value is string => typeof value === 'string' && value.length > 0
+  )
+  const codes = [inner.type, inner.code, inner.status, root.type, root.code]
+    .filter((value): value is string => typeof value === 'string')
+    .map((value) => value.toLowerCase())
+  return { message, codes }
+}
+
+const CONTEXT_LENGTH =
+  /context[_ ]length|context window|maximum context|prompt is too long|input is too long|too many (input )?tokens|reduce the length|exceeds? the (model's )?(maximum|max)/i
+const CONTENT_FILTER = /content[_ ]filter|content[_ ]polic|safety (system|filter)|flagged|moderation|responsible ai/i
+const QUOTA =
+  /insufficient[_ ]quota|quota|billing|credit balance|insufficient (funds|credits|balance)|payment required|out of credits/i
+const PER_WINDOW = /per[ _-]?(second|minute|hour)|\brate[ _-]?limit/i
+const PER_DAY = /per[ _-]?day|daily/i
+const EXPIRED = /expired|token_expired|invalid_token/i
+const MODEL = /model/i
+
+const hasCode = (vendor: VendorError, ...codes: string[]) => vendor.codes.some((c) => codes.includes(c))
+
+/** Map a failed upstream response onto a typed error with a `retryable` flag. */
+export function classifyUpstreamFailure(failure: UpstreamFailure): OpenLLMProviderError {
+  const { status, providerId, modelId } = failure
+  const body = failure.body.slice(0, MAX_BODY_LENGTH)
+  const vendor = readVendorError(body)
+  const text = `${vendor.codes.join(' ')} ${vendor.message ?? ''}`
+  const message = `${providerId}${modelId !== undefined ? `/${modelId}` : ''}: ${vendor.message ?? `HTTP ${status}`}`
+  const options = {
+    providerID: providerId,
+    modelId,
+    statusCode: status,
+    responseBody: body,
+    responseHeaders: Object.fromEntries(failure.headers.entries()),
+  }
+
+  if (hasCode(vendor, 'context_length_exceeded') || ((status === 400 || status === 413) && CONTEXT_LENGTH.test(text))) {
+    return new ContextLengthExceededError(message, options)
+  }
+  if (hasCode(vendor, 'content_filter', 'content_policy_violation') || (status === 400 && CONTENT_FILTER.test(text))) {
+    return new ContentFilteredError(message, options)
+  }
+  // Google reports per-minute limits as RESOURCE_EXHAUSTED "quota" errors too,
+  // while a per-day limit will not lift by retrying within the request
+  if (status === 402 || (status !== 401 && QUOTA.test(text) && (PER_DAY.test(text) || !PER_WINDOW.test(text)))) {
+    return new QuotaExhaustedError(message, options)
+  }
+  if (status === 429 || hasCode(vendor, 'rate_limit_error', 'rate_limit_exceeded')) {
+    return new RateLimitError(message, retryDelayFromHeaders(failure.headers), { ...options, retryable: true })
+  }
+  if (status === 401) {
+    return failure.oauth === true || EXPIRED.test(text)
+      ? new AuthExpiredError(message, options)
+      : new AuthError(message, options)
+  }
+  if (status === 403) return new AuthError(message, options)
+  if (status === 404 && (hasCode(vendor, 'model_not_found') || MODEL.test(text))) {
+    return new ModelNotFoundError(message, options)
+  }
+  return new UpstreamError(message, { ...options, retryable: isRetryableStatus(status) })
+}
+
+function requestUrl(input: Parameters<typeof globalThis.fetch>[0]): string {
+  return typeof input === 'string' ? input : input instanceof URL ? input.href : input.url
+}
+
+/** The model a request targets: the JSON `model` field, or Google's `/models/{id}:method` path */
+function requestModelId(input: Parameters<typeof globalThis.fetch>[0], init?: RequestInit): string | undefined {
+  if (typeof init?.body === 'string') {
+    try {
+      const model = (JSON.parse(init.body) as { model?: unknown }).model
+      if (typeof model === 'string') return model
+    } catch {}
+  }
+  return /\/models\/([^/:?]+)/.exec(requestUrl(input))?.[1]
+}
+
+export interface ClassifyingFetchOptions {
+  providerId: string
+  oauth?: boolean
+  /**
+   * The wrapped fetch has already retried, so errors tell the SDK's own
+   * `maxRetries` loop not to try again (`isRetryable: false`). `retryable`
+   * still says whether the request may succeed later.
+   */
+  retried?: boolean
+}
+
+/** The AI SDK tells its errors apart by these markers rather than by class */
+const API_CALL_ERROR_MARKERS = [Symbol.for('vercel.ai.error'), Symbol.for('vercel.ai.error.AI_APICallError')]
+
+/**
+ * Make a classified error pass `APICallError.isInstance()`, with the fields
+ * that class adds, so the AI SDK's `maxRetries` loop and callers written
+ * against APICallError handle it as they would the SDK's own error.
+ */
+function markAsAPICallError(
+  error: OpenLLMProviderError,
+  url: string,
+  requestBodyValues: unknown,
+  isRetryable: boolean
+): void {
+  for (const marker of API_CALL_ERROR_MARKERS) Object.defineProperty(error, marker, { value: true })
+  Object.assign(error, { url, requestBodyValues, isRetryable, data: undefined })
+}
+
+function requestBodyValues(init?: RequestInit): unknown {
+  if (typeof init?.body !== 'string') return undefined
+  try {
+    return JSON.parse(init.body)
+  } catch {
+    return init.body
+  }
+}
+
+/**
+ * Wrap a fetch so failed responses are thrown as typed errors instead of being
+ * parsed by each SDK. Sits outside the retry fetch, so only the final attempt
+ * is classified. The errors also pass as the SDK's APICallError, keeping
+ * `statusCode`, `responseBody`, `responseHeaders` and `isRetryable`.
+ */
+export function createClassifyingFetch(
+  fetch: typeof globalThis.fetch,
+  options: ClassifyingFetchOptions
+): typeof globalThis.fetch {
+  const classifying = async (input: Parameters<typeof globalThis.fetch>[0], init?: RequestInit) => {
+    const response = await fetch(input, init)
+    if (response.ok) return response
+    const body = await response.text().catch(() => '')
+    const error = classifyUpstreamFailure({
+      status: response.status,
+      body,
+      headers: response.headers,
+      providerId: options.providerId,
+      modelId: requestModelId(input, init),
+      oauth: options.oauth,
+    })
+    markAsAPICallError(error, requestUrl(input), requestBodyValues(init), error.retryable && options.retried !== true)
+    log('%s: HTTP %d classified as %s', options.providerId, response.status, error.code)
+    throw error
+  }
+  return classifying as typeof globalThis.fetch
+}
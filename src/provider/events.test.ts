@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'bun:test'
+import type {
+  LanguageModelV3,
+  LanguageModelV3CallOptions,
+  LanguageModelV3GenerateResult,
+  LanguageModelV3StreamPart,
+  LanguageModelV3Usage,
+} from '@ai-sdk/provider'
+import { createEventHub } from '../events.js'
+import type { ProviderStoreEvents } from './events.js'
+import { createRequestEventsMiddleware } from './events.js'
+import { wrapLanguageModel } from './middleware.js'
+
+const usage: LanguageModelV3Usage = {
+  inputTokens: { total: 1_000_000, noCache: 1_000_000, cacheRead: 0, cacheWrite: 0 },
+  outputTokens: { total: 100_000, text: 100_000, reasoning: undefined },
+}
+const finishReason = { unified: 'stop', raw: 'stop' } as const
+
+function makeModel(fail = false): LanguageModelV3 {
+  return {
+    specificationVersion: 'v3',
+    provider: 'test',
+    modelId: 'model',
+    supportedUrls: {},
+    async doGenerate() {
+      if (fail) throw Object.assign(new Error('Unauthorized'), { statusCode: 401 })
+      return { content: [], usage, finishReason } as unknown as LanguageModelV3GenerateResult
+    },
+    async doStream() {
+      const stream = new ReadableStream<LanguageModelV3StreamPart>({
+        start(controller) {
+          controller.enqueue({ type: 'text-delta', id: '1', delta: 'hi' })
+          controller.enqueue({ type: 'finish', usage, finishReason })
+          controller.close()
+        },
+      })
+      return { stream }
+    },
+  }
+}
+
+function record() {
+  const events = createEventHub<ProviderStoreEvents>()
+  const seen: Array<[string, Record<string, unknown>]> = []
+  for (const name of ['request:start', 'request:end', 'request:error'] as const) {
+    events.on(name, (payload) => seen.push([name, { ...payload }]))
+  }
+  const middleware = createRequestEventsMiddleware({
+    events,
+    providerId: 'openai',
+    modelId: 'gpt-4o',
+    credential: 'env:OPENAI_API_KEY',
+    getCost: () => ({ input: 2, output: 10 }),
+  })
+  return { seen, middleware }
+}
+
+const params = { prompt: [] } as LanguageModelV3CallOptions
+
+describe('createRequestEventsMiddleware', () => {
+  it('reports usage, cost and latency of a generate call', async () => {
+    const { seen, middleware } = record()
+    await wrapLanguageModel(makeModel(), [middleware]).doGenerate(params)
+    expect(seen.map(([name]) => name)).toEqual(['request:start', 'request:end'])
+    const [[, start], [, end]] = seen as [[string, Record<string, unknown>], [string, Record<string, unknown>]]
+    expect(end).toMatchObject({
+      requestId: start.requestId,
+      providerId: 'openai',
+      modelId: 'gpt-4o',
+      operation: 'generate',
+      usage: { inputTokens: 1_000_000, outputTokens: 100_000 },
+      cost: 3,
+      finishReason,
+    })
+    expect(end.latencyMs).toBeNumber()
+  })
+
+  it('reports failures and rethrows them', async () => {
+    const { seen, middleware } = record()
+    await expect(wrapLanguageModel(makeModel(true), [middleware]).doGenerate(params)).rejects.toThrow('Unauthorized')
+    expect(seen.map(([name]) => name)).toEqual(['request:start', 'request:error'])
+    expect((seen[1]?.[1].error as Error).message).toBe('Unauthorized')
+  })
+
+  it('ends a stream when its finish part passes through', async () => {
+    const { seen, middleware } = record()
+    const { stream } = await wrapLanguageModel(makeModel(), [middleware]).doStream(params)
+    expect(seen.map(([name]) => name)).toEqual(['request:start'])
+    for await (const _ of stream) {
+    }
+    expect(seen.map(([name]) => name)).toEqual(['request:start', 'request:end'])
+    expect(seen[1]?.[1]).toMatchObject({ operation: 'stream', cost: 3 })
+  })
+})
+
+describe('createEventHub', () => {
+  it('isolates throwing listeners and supports once()', () => {
+    const events = createEventHub<{ ping: number }>()
+    const seen: number[] = []
+    events.on('ping', () => {
+      throw new Error('boom')
+    })
+    events.once('ping', (n) => seen.push(n))
+    const off = events.on('ping', (n) => seen.push(n * 10))
+    events.emit('ping', 1)
+    off()
+    events.emit('ping', 2)
+    expect(seen).toEqual([1, 10])
+  })
+})
@@ -0,0 +1,123 @@
+import { randomUUID } from 'node:crypto'
+import type { LanguageModelV3FinishReason, LanguageModelV3StreamPart } from '@ai-sdk/provider'
+import type { AuthStoreEvents } from '../auth/store.js'
+import type { EventHub } from '../events.js'
+import type { ModelDefinition } from '../types/model.js'
+import type { AuthCredential } from '../types/plugin.js'
+import type { DiscoveredLocalServer } from './local.js'
+import type { LanguageModelMiddleware } from './middleware.js'
+import type { UsageRecord } from './usage.js'
+import { computeCost, normalizeUsage } from './usage.js'
+
+export interface RequestEvent {
+  /** Shared by the start event and the end or error event of one call */
+  requestId: string
+  providerId: string
+  modelId: string
+  /** Which credential serves the call: a pool key label, or the credential location/source */
+  credential: string
+  operation: 'generate' | 'stream'
+}
+
+export type RequestUsage = Pick<
+  UsageRecord,
+  'inputTokens' | 'outputTokens' | 'cacheReadTokens' | 'cacheWriteTokens' | 'reasoningTokens'
+>
+
+export interface ProviderStoreEvents {
+  'request:start': RequestEvent & { timestamp: number }
+  /** For streams, emitted when the finish part arrives */
+  'request:end': RequestEvent & {
+    latencyMs: number
+    usage: RequestUsage
+    /** USD, undefined when the model has no cost data */
+    cost?: number
+    finishReason: LanguageModelV3FinishReason
+  }
+  /** Includes refusals by the circuit breaker, budgets and rate limiter */
+  'request:error': RequestEvent & { latencyMs: number; error: unknown }
+  /** A plugin refreshed and persisted an OAuth credential */
+  'credential:refreshed': { providerId: string; credential: AuthCredential }
+  /** Forwarded from the auth store; cached clients of the provider have been dropped */
+  'credential:changed': AuthStoreEvents['credential:changed']
+  /** Catalog metadata changed: models.dev was fetched ('remote') or a live sync listed models ('live') */
+  'catalog:refreshed': { source: 'remote' | 'live'; providers: string[] }
+  /** discoverLocalServers() found running servers */
+  'discover:found': { servers: DiscoveredLocalServer[] }
+}
+
+export interface RequestEventsMiddlewareOptions {
+  events: EventHub<ProviderStoreEvents>
+  providerId: string
+  modelId: string
+  credential: string
+  /** Looked up at finish time so catalog refreshes are picked up */
+  getCost: () => ModelDefinition['cost']
+}
+
+/** Emits request:start, request:end and request:error around every generate and stream call. */
+export function createRequestEventsMiddleware(options: RequestEventsMiddlewareOptions): LanguageModelMiddleware {
+  const { events, providerId, modelId, credential, getCost } = options
+
+  function start(operation: RequestEvent['operation']): { request: RequestEvent; started: number } {
+    const request = { requestId: randomUUID(), providerId, modelId, credential, operation }
+    const started = performance.now()
+    events.emit('request:start', { ...request, timestamp: Date.now() })
+    return { request, started }
+  }
+
+  const elapsed = (started: number) => Math.round(performance.now() - started)
+
+  function end(
+    request: RequestEvent,
+    started: number,
+    usage: Parameters<typeof normalizeUsage>[0],
+    finishReason: LanguageModelV3FinishReason
+  ): void {
+    const normalized = normalizeUsage(usage)
+    events.emit('request:end', {
+      ...request,
+      latencyMs: elapsed(started),
+      usage: normalized,
+      cost: computeCost(normalized, getCost()),
+      finishReason,
+    })
+  }
+
+  return {
+    specificationVersion: 'v3',
+
+    async wrapGenerate({ doGenerate }) {
+      const { request, started } = start('generate')
+      try {
+        const result = await doGenerate()
+        end(request, started, result.usage, result.finishReason)
+        return result
+      } catch (error) {
+        events.emit('request:error', { ...request, latencyMs: elapsed(started), error })
+        throw error
+      }
+    },
+
+    async wrapStream({ doStream }) {
+      const { request, started } = start('stream')
+      let result: Awaited<ReturnType<typeof doStream>>
+      try {
+        result = await doStream()
+      } catch (error) {
+        events.emit('request:error', { ...request, latencyMs: elapsed(started), error })
+        throw error
+      }
+      const monitor = new TransformStream<LanguageModelV3StreamPart, LanguageModelV3StreamPart>({
+        transform(part, controller) {
+          if (part.type === 'finish') end(request, started, part.usage, part.finishReason)
+          if (part.type === 'error') {
+            events.emit('request:error', { ...request, latencyMs: elapsed(started), error: part.error })
+          }
+          controller.enqueue(part)
+        },
+      })
+      return { ...result, stream: result.stream.pipeThrough(monitor) }
+    },
+  }
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'bun:test'
+import type { LanguageModelV3, LanguageModelV3CallOptions, LanguageModelV3GenerateResult } from '@ai-sdk/provider'
+import { createFallbackLanguageModel, isFallbackError } from './fallback.js'
+
+function httpError(statusCode: number): Error {
+  return Object.assign(new Error(`HTTP ${statusCode}`), { name: 'AI_APICallError', statusCode })
+}
+
+function makeModel(provider: string, behavior: () => Promise<unknown>): LanguageModelV3 & { calls: number } {
+  const model = {
+    specificationVersion: 'v3' as const,
+    provider,
+    modelId: 'model',
+    supportedUrls: {},
+    calls: 0,
+    async doGenerate() {
+      model.calls++
+      return (await behavior()) as LanguageModelV3GenerateResult
+    },
+    async doStream(): Promise<never> {
+      throw new Error('not implemented')
+    },
+  }
+  return model
+}
+
+const callOptions = { prompt: [] } as LanguageModelV3CallOptions
+
+describe('isFallbackError', () => {
+  it('falls back on auth, rate limit and server errors', () => {
+    for (const status of [401, 403, 429, 500, 503]) {
+      expect(isFallbackError(httpError(status))).toBe(true)
+    }
+  })
+
+  it('does not fall back on client errors', () => {
+    expect(isFallbackError(httpError(400))).toBe(false)
+    expect(isFallbackError(new Error('boom'))).toBe(false)
+  })
+
+  it('falls back on network errors', () => {
+    const cause = Object.assign(new Error('connect'), { code: 'ECONNREFUSED' })
+    expect(isFallbackError(new TypeError('fetch failed', { cause }))).toBe(true)
+  })
+})
+
+describe('createFallbackLanguageModel', () => {
+  it('returns the first successful result', async () => {
+    const failing = makeModel('anthropic', () => Promise.reject(httpError(529)))
+    const working = makeModel('amazon-bedrock', () => Promise.resolve({ content: [] }))
+
+    const model = createFallbackLanguageModel([failing, working])
+    expect(await model.doGenerate(callOptions)).toEqual({ content: [] } as unknown as LanguageModelV3GenerateResult)
+    expect(failing.calls).toBe(1)
+    expect(working.calls).toBe(1)
+  })
+
+  it('rethrows non-fallback errors without trying the next candidate', async () => {
+    const failing = makeModel('anthropic', () => Promise.reject(httpError(400)))
+    const next = makeModel('openrouter', () => Promise.resolve({ content: [] }))
+
+    const model = createFallbackLanguageModel([failing, next])
+    await expect(model.doGenerate(callOptions)).rejects.toThrow('HTTP 400')
+    expect(next.calls).toBe(0)
+  })
+
+  it('surfaces the last error when every candidate fails', async () => {
+    const first = makeModel('anthropic', () => Promise.reject(httpError(429)))
+    const second = makeModel('openrouter', () => Promise.reject(httpError(503)))
+
+    const model = createFallbackLanguageModel([first, second])
+    await expect(model.doGenerate(callOptions)).rejects.toThrow('HTTP 503')
+  })
+
+  it('reports the primary candidate as provider and model', () => {
+    const model = createFallbackLanguageModel([makeModel('anthropic', () => Promise.resolve({}))])
+    expect(model.provider).toBe('anthropic')
+  })
+})
@@ -0,0 +1,87 @@
+import type { LanguageModelV3, LanguageModelV3CallOptions } from '@ai-sdk/provider'
+import { createLogger } from '../logger.js'
+import { BudgetExceededError, ProviderUnavailableError } from '../types/errors.js'
+import { errorStatusCode, isNetworkError } from './http.js'
+
+const log = createLogger('provider:fallback')
+
+const FALLBACK_STATUS_CODES: ReadonlySet<number> = new Set([401, 403, 408, 429])
+
+export interface FallbackOptions {
+  /**
+   * Decide whether an error from one candidate should move on to the next.
+   * Defaults to {@link isFallbackError}.
+   */
+  shouldFallback?: (error: unknown) => boolean
+}
+
+/**
+ * Default fallback policy: auth failures, rate limits, server errors, missing
+ * API keys, exhausted spend budgets, open circuits and network errors move on
+ * to the next candidate. Anything else (bad request, content filter, ...)
+ * would fail the same way everywhere and is rethrown.
+ */
+export function isFallbackError(error: unknown): boolean {
+  const status = errorStatusCode(error)
+  if (status !== undefined) return FALLBACK_STATUS_CODES.has(status) || status >= 500
+  if (error instanceof Error && error.name === 'AI_LoadAPIKeyError') return true
+  if (error instanceof BudgetExceededError || error instanceof ProviderUnavailableError) return true
+  return isNetworkError(error)
+}
+
+/**
+ * Wrap an ordered list of language models into a single LanguageModelV3 that
+ * transparently retries the next candidate when a call fails with a
+ * fallback-eligible error. Streams only fall back while the stream is being
+ * established — once chunks flow, errors are surfaced to the caller.
+ */
+export function createFallbackLanguageModel(
+  candidates: LanguageModelV3[],
+  options: FallbackOptions = {}
+): LanguageModelV3 {
+  const [primary] = candidates
+  if (primary === undefined) {
+    throw new Error('createFallbackLanguageModel requires at least one candidate model')
+  }
+  const shouldFallback = options.shouldFallback ?? isFallbackError
+
+  async function runWithFallback<T>(
+    method: 'doGenerate' | 'doStream',
+    callOptions: LanguageModelV3CallOptions,
+    call: (model: LanguageModelV3) => PromiseLike<T>
+  ): Promise<T> {
+    let lastError: unknown
+    for (const [index, model] of candidates.entries()) {
+      try {
+        return await call(model)
+      } catch (error) {
+        lastError = error
+        const isLast = index === candidates.length - 1
+        if (isLast || callOptions.abortSignal?.aborted === true || !shouldFallback(error)) throw error
+        log(
+          '%s failed on %s/%s, falling back to %s/%s: %s',
+          method,
+          model.provider,
+          model.modelId,
+          candidates[index + 1]?.provider,
+          candidates[index + 1]?.modelId,
+          error instanceof Error ? error.message : String(error)
+        )
+      }
+    }
+    throw lastError
+  }
+
+  return {
+    specificationVersion: 'v3',
+    provider: primary.provider,
+    modelId: primary.modelId,
+    supportedUrls: primary.supportedUrls,
+    doGenerate(callOptions) {
+      return runWithFallback('doGenerate', callOptions, (model) => model.doGenerate(callOptions))
+    },
+    doStream(callOptions) {
+      return runWithFallback('doStream', callOptions, (model) => model.doStream(callOptions))
+    },
+  }
+}
@@ -0,0 +1,49 @@
+import { RequestTimeoutError } from '../types/errors.js'
+
+const NETWORK_ERROR_CODES: ReadonlySet<string> = new Set([
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'ETIMEDOUT',
+  'EPIPE',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_SOCKET',
+])
+
+/** HTTP status carried by an SDK error (APICallError exposes it as `statusCode`). */
+export function errorStatusCode(error: unknown): number | undefined {
+  if (typeof error !== 'object' || error === null) return undefined
+  const status = (error as { statusCode?: unknown }).statusCode
+  return typeof status === 'number' ? status : undefined
+}
+
+export function errorResponseHeaders(error: unknown): Record<string, string> | undefined {
+  if (typeof error !== 'object' || error === null) return undefined
+  const headers = (error as { responseHeaders?: unknown }).responseHeaders
+  return headers !== null && typeof headers === 'object' ? (headers as Record<string, string>) : undefined
+}
+
+/** Network failures, including configured provider timeouts */
+export function isNetworkError(error: unknown): boolean {
+  if (error instanceof RequestTimeoutError) return true
+  let current: unknown = error
+  // fetch failures surface as TypeError('fetch failed') with the socket error as cause
+  for (let depth = 0; depth < 4 && typeof current === 'object' && current !== null; depth++) {
+    const code = (current as { code?: unknown }).code
+    if (typeof code === 'string' && NETWORK_ERROR_CODES.has(code)) return true
+    if (current instanceof TypeError && /fetch failed|network/i.test(current.message)) return true
+    current = (current as { cause?: unknown }).cause
+  }
+  return false
+}
+
+/** Parse a Retry-After value (delta-seconds or HTTP date) into milliseconds. */
+export function parseRetryAfter(value: string | null | undefined, now = Date.now()): number | undefined {
+  if (value === null || value === undefined || value.trim().length === 0) return undefined
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(value)
+  if (Number.isNaN(date)) return undefined
+  return Math.max(0, date - now)
+}
@@ -0,0 +1,474 @@
+import { afterAll, beforeAll, describe, expect, it } from 'bun:test'
+import type { LanguageModelV3 } from '@ai-sdk/provider'
+import { APICallError } from '@ai-sdk/provider'
+import { createAuthStore } from '../auth/store.js'
+import { registerPlugin } from '../plugin/index.js'
+import { RequestTimeoutError, ValidationError } from '../types/errors.js'
+import type { AuthCredential } from '../types/plugin.js'
+import type { ProviderInstance } from './bundled.js'
+import { registerBundledProvider } from './bundled.js'
+import type { ProviderStoreConfig } from './index.js'
+import { createProviderStore } from './index.js'
+
+const originalFetch = globalThis.fetch
+const offline = () => new Response('offline', { status: 503 })
+/** Answers every request the fake SDKs make; reset by each test that sets it */
+let upstream: (request: Request) => Response = offline
+
+// Also keeps the models.dev refresh offline; the catalog falls back to its snapshot
+beforeAll(() => {
+  globalThis.fetch = (async (input: string, init?: RequestInit) =>
+    upstream(new Request(input, init))) as unknown as typeof globalThis.fetch
+})
+
+afterAll(() => {
+  globalThis.fetch = originalFetch
+})
+
+/** A stand-in model that records which factory created it */
+function fakeModel(kind: string, modelId: string): never {
+  return { kind, modelId } as never
+}
+
+function createStore(
+  factory: (options: Record<string, unknown>) => ProviderInstance,
+  credentials: Record<string, AuthCredential> = { fake: { type: 'api', key: 'fake-key' } },
+  config: ProviderStoreConfig = {}
+) {
+  registerBundledProvider('test-store-sdk', factory)
+  const authStore = createAuthStore({ data: credentials })
+  const store = createProviderStore(authStore, { circuitBreaker: false, ...config })
+  store.extend({
+    providers: {
+      fake: {
+        name: 'Fake',
+        bundledProvider: 'test-store-sdk',
+        models: {
+          chat: { name: 'Chat' },
+          embed: { name: 'Embed', type: 'embedding' },
+        },
+      },
+    },
+  })
+  return store
+}
+
+const usage = {
+  inputTokens: { total: 1, noCache: 1, cacheRead: 0, cacheWrite: 0 },
+  outputTokens: { total: 1, text: 1, reasoning: undefined },
+}
+
+const languageModel = (modelId: string) => fakeModel('language', modelId) as LanguageModelV3
+
+describe('getEmbeddingModel', () => {
+  it('uses embeddingModel() and accepts a "provider/model" reference', async () => {
+    const store = createStore(() => ({ languageModel, embeddingModel: (id) => fakeModel('embedding', id) }))
+    expect(await store.getEmbeddingModel('fake', 'embed')).toEqual(fakeModel('embedding', 'embed'))
+    expect(await store.getEmbeddingModel('fake/embed')).toEqual(fakeModel('embedding', 'embed'))
+  })
+
+  it('falls back to textEmbeddingModel() on older SDKs', async () => {
+    const store = createStore(() => ({ languageModel, textEmbeddingModel: (id) => fakeModel('text-embedding', id) }))
+    expect(await store.getEmbeddingModel('fake', 'embed')).toEqual(fakeModel('text-embedding', 'embed'))
+  })
+
+  it('rejects providers without embedding models', async () => {
+    const store = createStore(() => ({ languageModel }))
+    await expect(store.getEmbeddingModel('fake', 'embed')).rejects.toBeInstanceOf(ValidationError)
+  })
+})
+
+describe('getImageModel', () => {
+  it('uses imageModel()', async () => {
+    const store = createStore(() => ({ languageModel, imageModel: (id) => fakeModel('image', id) }))
+    expect(await store.getImageModel('fake/paint')).toEqual(fakeModel('image', 'paint'))
+  })
+
+  it('rejects providers without image models', async () => {
+    const store = createStore(() => ({ languageModel }))
+    await expect(store.getImageModel('fake', 'paint')).rejects.toBeInstanceOf(ValidationError)
+  })
+})
+
+describe('speech, transcription and reranking models', () => {
+  it('use the dedicated factories', async () => {
+    const store = createStore(() => ({
+      languageModel,
+      speechModel: (id) => fakeModel('speech', id),
+      transcriptionModel: (id) => fakeModel('transcription', id),
+      rerankingModel: (id) => fakeModel('reranking', id),
+    }))
+    expect(await store.getSpeechModel('fake', 'tts')).toEqual(fakeModel('speech', 'tts'))
+    expect(await store.getTranscriptionModel('fake', 'stt')).toEqual(fakeModel('transcription', 'stt'))
+    expect(await store.getRerankingModel('fake', 'rerank')).toEqual(fakeModel('reranking', 'rerank'))
+  })
+
+  it('fall back to the speech() and transcription() shorthands', async () => {
+    const store = createStore(() => ({
+      languageModel,
+      speech: (id) => fakeModel('speech-shorthand', id),
+      transcription: (id) => fakeModel('transcription-shorthand', id),
+    }))
+    expect(await store.getSpeechModel('fake', 'tts')).toEqual(fakeModel('speech-shorthand', 'tts'))
+    expect(await store.getTranscriptionModel('fake', 'stt')).toEqual(fakeModel('transcription-shorthand', 'stt'))
+  })
+
+  it('reject providers without the model kind', async () => {
+    const store = createStore(() => ({ languageModel }))
+    await expect(store.getSpeechModel('fake', 'tts')).rejects.toBeInstanceOf(ValidationError)
+    await expect(store.getTranscriptionModel('fake', 'stt')).rejects.toBeInstanceOf(ValidationError)
+    await expect(store.getRerankingModel('fake', 'rerank')).rejects.toBeInstanceOf(ValidationError)
+  })
+})
+
+describe('listModels', () => {
+  it('filters by type, treating untyped models as chat', async () => {
+    const store = createStore(() => ({ languageModel }))
+    expect((await store.listModels('fake', { type: 'embedding' })).map((m) => m.modelId)).toEqual(['embed'])
+    expect((await store.listModels('fake', { type: 'chat' })).map((m) => m.modelId)).toEqual(['chat'])
+    expect((await store.listModels('fake')).map((m) => m.modelId).sort()).toEqual(['chat', 'embed'])
+  })
+})
+
+describe('credential pools', () => {
+  const pooled: Record<string, AuthCredential> = {
+    fake: { type: 'api', pool: { keys: [{ key: 'keyA' }, { key: 'keyB' }] } },
+  }
+  const pooledFactory = (options: Record<string, unknown>): ProviderInstance => ({
+    languageModel: (modelId) =>
+      ({
+        specificationVersion: 'v3',
+        provider: 'fake',
+        modelId,
+        supportedUrls: {},
+        async doGenerate() {
+          const fetch = options.fetch as typeof globalThis.fetch
+          await fetch('https://fake.test/chat', { headers: { authorization: String(options.apiKey) } })
+          return { content: [], finishReason: { unified: 'stop', raw: 'stop' }, usage, warnings: [] }
+        },
+      }) as unknown as LanguageModelV3,
+  })
+
+  it('move a rate limited call to the next key without retrying the same key', async () => {
+    const hits: string[] = []
+    upstream = (request) => {
+      const key = request.headers.get('authorization')
+      if (key === null) return offline()
+      hits.push(key)
+      return key === 'keyA'
+        ? new Response('{"error":{"message":"slow down"}}', { status: 429, headers: { 'retry-after': '1' } })
+        : new Response('{}')
+    }
+    const store = createStore(pooledFactory, pooled)
+    try {
+      const model = await store.getLanguageModel('fake', 'chat')
+      await model.doGenerate({ prompt: [] })
+      expect(hits).toEqual(['keyA', 'keyB'])
+      const cooling = store.getKeyPoolStatus('fake')?.filter((k) => k.coolingDownUntil !== undefined)
+      expect(cooling).toHaveLength(1)
+    } finally {
+      upstream = offline
+    }
+  })
+
+  it('cool a rate limited key down for as long as retry-after-ms asks', async () => {
+    upstream = (request) => {
+      const key = request.headers.get('authorization')
+      if (key === null) return offline()
+      return key === 'keyA'
+        ? new Response('{"error":{"message":"slow down"}}', { status: 429, headers: { 'retry-after-ms': '300000' } })
+        : new Response('{}')
+    }
+    const store = createStore(pooledFactory, pooled)
+    try {
+      const model = await store.getLanguageModel('fake', 'chat')
+      await model.doGenerate({ prompt: [] })
+      const [cooling] = store.getKeyPoolStatus('fake')?.filter((k) => k.coolingDownUntil !== undefined) ?? []
+      expect(cooling?.coolingDownUntil).toBeGreaterThan(Date.now() + 250_000)
+    } finally {
+      upstream = offline
+    }
+  })
+})
+
+describe('timeouts', () => {
+  it('bound the whole call with totalMs, retries included', async () => {
+    let attempts = 0
+    upstream = () => {
+      attempts++
+      return new Response('{"error":{"message":"slow down"}}', { status: 429, headers: { 'retry-after-ms': '20' } })
+    }
+    const store = createStore(
+      (options) => ({
+        languageModel: (modelId) =>
+          ({
+            specificationVersion: 'v3',
+            provider: 'fake',
+            modelId,
+            supportedUrls: {},
+            async doGenerate() {
+              const fetch = options.fetch as typeof globalThis.fetch
+              await fetch('https://fake.test/chat')
+              return { content: [], finishReason: { unified: 'stop', raw: 'stop' }, usage, warnings: [] }
+            },
+          }) as unknown as LanguageModelV3,
+      }),
+      undefined,
+      { userConfig: { fake: { timeout: { totalMs: 50 }, retry: { maxRetries: 10 } } } }
+    )
+    try {
+      const model = await store.getLanguageModel('fake', 'chat')
+      const error = await Promise.resolve(model.doGenerate({ prompt: [] })).catch((e: unknown) => e)
+      expect(error).toBeInstanceOf(RequestTimeoutError)
+      expect((error as RequestTimeoutError).phase).toBe('total')
+      expect(attempts).toBeLessThan(10)
+    } finally {
+      upstream = offline
+    }
+  })
+})
+
+describe('SDK instances', () => {
+  function createCountingStore() {
+    const created: string[] = []
+    const authStore = createAuthStore({
+      data: { fake: { type: 'api', key: 'fake-key' }, other: { type: 'api', key: 'other-key' } },
+    })
+    registerBundledProvider('test-store-sdk', (options) => {
+      created.push(String(options.apiKey))
+      return { languageModel }
+    })
+    const store = createProviderStore(authStore, { circuitBreaker: false })
+    store.extend({
+      providers: {
+        fake: { name: 'Fake', bundledProvider: 'test-store-sdk', models: { chat: { name: 'Chat' } } },
+        other: { name: 'Other', bundledProvider: 'test-store-sdk', models: { chat: { name: 'Chat' } } },
+      },
+    })
+    return { store, authStore, created }
+  }
+
+  it('are created once per provider and credential', async () => {
+    const { store, created } = createCountingStore()
+    await store.getLanguageModel('fake', 'chat')
+    await store.getLanguageModel('fake', 'chat')
+    expect(created).toEqual(['fake-key'])
+  })
+
+  it('survive state rebuilds that leave their options unchanged', async () => {
+    const { store, created } = createCountingStore()
+    await store.getLanguageModel('fake', 'chat')
+    store.extend({ providers: { unrelated: { name: 'Unrelated', bundledProvider: 'test-store-sdk' } } })
+    await store.getLanguageModel('fake', 'chat')
+    expect(created).toEqual(['fake-key'])
+  })
+
+  it('are rebuilt only for the provider whose credential changed', async () => {
+    const { store, authStore, created } = createCountingStore()
+    await store.getLanguageModel('fake', 'chat')
+    await store.getLanguageModel('other', 'chat')
+    await authStore.set('fake', { type: 'api', key: 'new-key' })
+    await store.getLanguageModel('fake', 'chat')
+    await store.getLanguageModel('other', 'chat')
+    expect(created).toEqual(['fake-key', 'other-key', 'new-key'])
+  })
+})
+
+describe('OAuth refreshes by plugins', () => {
+  it('are reported once and rebuild the provider state once', async () => {
+    let loads = 0
+    registerPlugin({
+      provider: 'refreshing',
+      methods: [],
+      async loader(_getAuth, _provider, setAuth) {
+        loads++
+        return {
+          fetch: async () => {
+            await setAuth({ type: 'oauth', key: 'refreshed-token' })
+            return new Response('{}')
+          },
+        }
+      },
+    })
+    const store = createStore(
+      (options) => ({
+        languageModel: (modelId) =>
+          ({
+            specificationVersion: 'v3',
+            provider: 'refreshing',
+            modelId,
+            supportedUrls: {},
+            async doGenerate() {
+              await (options.fetch as typeof globalThis.fetch)('https://refreshing.test/chat')
+              return { content: [], finishReason: { unified: 'stop', raw: 'stop' }, usage, warnings: [] }
+            },
+          }) as unknown as LanguageModelV3,
+      }),
+      { refreshing: { type: 'oauth', key: 'old-token' } }
+    )
+    store.extend({
+      providers: {
+        refreshing: { name: 'Refreshing', bundledProvider: 'test-store-sdk', models: { chat: { name: 'Chat' } } },
+      },
+    })
+    const seen: string[] = []
+    store.events.on('credential:refreshed', () => seen.push('refreshed'))
+    store.events.on('credential:changed', () => seen.push('changed'))
+
+    const model = await store.getLanguageModel('refreshing', 'chat')
+    await model.doGenerate({ prompt: [] })
+    await store.getLanguageModel('refreshing', 'chat')
+    expect(seen).toEqual(['refreshed'])
+    expect(loads).toBe(2)
+  })
+})
+
+describe('catalog refresh', () => {
+  it('is tried again after a failure', async () => {
+    let failures = 1
+    registerPlugin({
+      provider: 'flaky',
+      methods: [],
+      async loader() {
+        if (failures-- > 0) throw new Error('plugin offline')
+        return {}
+      },
+    })
+    const store = createStore(() => ({ languageModel }), undefined, { liveModels: true })
+    store.extend({ providers: { flaky: { name: 'Flaky', bundledProvider: 'test-store-sdk' } } })
+    await expect(store.getLanguageModel('fake', 'chat')).rejects.toThrow('plugin offline')
+    expect((await store.getLanguageModel('fake', 'chat')).modelId).toBe('chat')
+  })
+})
+
+describe('named accounts', () => {
+  function createAccountStore() {
+    const created: Array<Record<string, unknown>> = []
+    const store = createStore(
+      (options) => {
+        created.push(options)
+        return { languageModel }
+      },
+      { fake: { type: 'api', key: 'main-key' }, 'fake:work': { type: 'api', key: 'work-key' } },
+      { userConfig: { 'fake:work': { baseURL: 'https://work.test/v1', headers: { 'x-team': 'work' } } } }
+    )
+    return { store, created }
+  }
+
+  it('resolve with their own credential, baseURL and headers', async () => {
+    const { store, created } = createAccountStore()
+    await store.getLanguageModel('fake:work/chat')
+    expect(created.at(-1)).toMatchObject({
+      apiKey: 'work-key',
+      baseURL: 'https://work.test/v1',
+      headers: { 'x-team': 'work' },
+    })
+
+    await store.getLanguageModel('fake', 'chat')
+    expect(created.at(-1)?.apiKey).toBe('main-key')
+    expect(created.at(-1)?.baseURL).toBeUndefined()
+  })
+
+  it("share the provider's catalog models", async () => {
+    const { store } = createAccountStore()
+    expect(await store.listModels('fake:work')).toEqual(await store.listModels('fake'))
+    expect((await store.getModel('fake:work', 'chat'))?.modelId).toBe('chat')
+  })
+
+  it('are listed as providers of their own', async () => {
+    const { store } = createAccountStore()
+    const providers = await store.listProviders()
+    expect(providers.find((p) => p.id === 'fake:work')).toMatchObject({ account: 'work', name: 'Fake' })
+    expect(providers.find((p) => p.id === 'fake')).toBeDefined()
+  })
+})
+
+describe('validate', () => {
+  it('pings with an instance that is neither retried nor metered', async () => {
+    let hits = 0
+    upstream = (request) => {
+      if (request.headers.get('authorization') === null) return offline()
+      hits++
+      return new Response('{"error":{"message":"slow down"}}', { status: 429, headers: { 'retry-after-ms': '1' } })
+    }
+    const store = createStore((options) => ({
+      languageModel: (modelId) =>
+        ({
+          specificationVersion: 'v3',
+          provider: 'fake',
+          modelId,
+          supportedUrls: {},
+          async doGenerate() {
+            const fetch = (options.fetch ?? globalThis.fetch) as typeof globalThis.fetch
+            const url = 'https://fake.test/chat'
+            const response = await fetch(url, { headers: { authorization: String(options.apiKey) } })
+            if (!response.ok) {
+              const responseBody = await response.text()
+              throw new APICallError({ message: 'failed', url, requestBodyValues: {}, statusCode: 429, responseBody })
+            }
+            return { content: [], finishReason: { unified: 'stop', raw: 'stop' }, usage, warnings: [] }
+          },
+        }) as unknown as LanguageModelV3,
+    }))
+    const requests: unknown[] = []
+    store.events.on('request:start', (event) => requests.push(event))
+    try {
+      expect(await store.validate('fake')).toMatchObject({ status: 'valid', method: 'generate', statusCode: 429 })
+      expect(hits).toBe(1)
+      expect(requests).toHaveLength(0)
+      expect(store.usage.records()).toHaveLength(0)
+    } finally {
+      upstream = offline
+    }
+  })
+
+  it('reads the status of the models listing itself', async () => {
+    let hits = 0
+    upstream = (request) => {
+      if (request.headers.get('authorization') === null) return offline()
+      hits++
+      return new Response('slow down', { status: 429, headers: { 'retry-after-ms': '1' } })
+    }
+    const store = createStore(() => ({ languageModel }), { listed: { type: 'api', key: 'listed-key' } })
+    store.extend({ providers: { listed: { name: 'Listed', bundledProvider: '@ai-sdk/groq' } } })
+    try {
+      expect(await store.validate('listed')).toMatchObject({
+        status: 'valid',
+        method: 'models',
+        statusCode: 429,
+        message: 'slow down',
+      })
+      expect(hits).toBe(1)
+    } finally {
+      upstream = offline
+    }
+  })
+})
+
+describe('validateAll', () => {
+  it('skips local servers, which have no credential', async () => {
+    let generations = 0
+    const store = createStore(() => ({
+      languageModel: (modelId) =>
+        ({
+          specificationVersion: 'v3',
+          provider: 'fake',
+          modelId,
+          supportedUrls: {},
+          async doGenerate() {
+            generations++
+            return { content: [], finishReason: { unified: 'stop', raw: 'stop' }, usage, warnings: [] }
+          },
+        }) as unknown as LanguageModelV3,
+    }))
+    store.extend({
+      providers: {
+        lm: { name: 'Local', bundledProvider: 'test-store-sdk', local: true, models: { small: { name: 'Small' } } },
+      },
+    })
+    const results = await store.validateAll()
+    expect(results.map((r) => r.providerId)).toContain('fake')
+    expect(results.map((r) => r.providerId)).not.toContain('lm')
+    expect(generations).toBe(1)
+  })
+})
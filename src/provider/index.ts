@@ -1,21 +1,94 @@
-import type { LanguageModelV3 } from '@ai-sdk/provider'
+import type {
+  EmbeddingModelV3,
+  ImageModelV3,
+  LanguageModelV3,
+  RerankingModelV3,
+  SpeechModelV3,
+  TranscriptionModelV3,
+} from '@ai-sdk/provider'
+import type { KeyPool, PooledKeyStatus } from '../auth/pool.js'
+import { createKeyPool } from '../auth/pool.js'
 import type { AuthStore } from '../auth/store.js'
 import { createAuthStore } from '../auth/store.js'
+import type { ModelRef } from '../catalog/alias.js'
+import { formatModelRef, parseAccountId, parseModelRef } from '../catalog/alias.js'
 import type { CatalogProvider, ExtendConfig } from '../catalog/catalog.js'
 import { Catalog } from '../catalog/catalog.js'
+import type { EventEmitter } from '../events.js'
+import { createEventHub } from '../events.js'
 import { createLogger } from '../logger.js'
 import { anthropicPlugin } from '../plugin/anthropic.js'
 import { codexPlugin } from '../plugin/codex.js'
 import { copilotPlugin } from '../plugin/copilot.js'
 import { googlePlugin } from '../plugin/google.js'
 import { registerPlugin } from '../plugin/index.js'
-import type { ModelDefinition } from '../types/model.js'
+import type { SpanHandle } from '../telemetry.js'
+import { withSpan } from '../telemetry.js'
+import {
+  CredentialNotFoundError,
+  ModelNotFoundError,
+  ProviderNotRegisteredError,
+  ValidationError,
+} from '../types/errors.js'
+import type { ModelAlias, ModelDefinition, ModelType } from '../types/model.js'
+import type { CredentialPool } from '../types/plugin.js'
 import type { ProviderUserConfig } from '../types/provider.js'
+import type { BudgetConfig, BudgetGuard, BudgetStatus } from './budget.js'
+import { createBudgetGuard, createBudgetMiddleware } from './budget.js'
+import type { ProviderInstance } from './bundled.js'
 import { isProviderInstalled, loadProvider } from './bundled.js'
+import type { ResponseCacheOptions } from './cache.js'
+import { createResponseCache } from './cache.js'
+import type { CircuitBreakerOptions, CircuitStatus, ProviderHealth } from './circuit.js'
+import { createCircuitBreaker, createCircuitBreakerMiddleware } from './circuit.js'
+import type { ProviderStoreEvents } from './events.js'
+import { createRequestEventsMiddleware } from './events.js'
+import type { FallbackOptions } from './fallback.js'
+import { createFallbackLanguageModel } from './fallback.js'
+import { errorStatusCode } from './http.js'
+import { createInstanceCache, fingerprintOptions } from './instances.js'
+import type { LiveSyncOptions, LiveSyncResult } from './live.js'
+import { DEFAULT_LIVE_SYNC_TIMEOUT_MS, fetchModelListing, hasModelListing } from './live.js'
+import type { DiscoveredLocalServer, LocalDiscoveryOptions } from './local.js'
+import { probeLocalServers, toLocalProviderConfig } from './local.js'
+import type { LanguageModelMiddleware } from './middleware.js'
+import { wrapLanguageModel } from './middleware.js'
+import { createPooledProviderInstance } from './pooled.js'
+import type { RateLimiter } from './ratelimit.js'
+import { createRateLimitMiddleware, createRateLimiter } from './ratelimit.js'
+import type { ModelCandidate, ModelCriteria, SelectedModel } from './select.js'
+import { rankModels } from './select.js'
 import { buildProviderState } from './state.js'
-
-export type { ProviderInstance, ProviderFactory } from './bundled.js'
-export { loadProvider, isProviderInstalled, getAllProviderPackages } from './bundled.js'
+import { createStreamErrorMiddleware } from './timeout.js'
+import type { UsageTracker } from './usage.js'
+import { createUsageMiddleware, createUsageTracker } from './usage.js'
+import type { ValidateOptions, ValidationResult } from './validate.js'
+import {
+  DEFAULT_VALIDATE_TIMEOUT_MS,
+  classifyValidationError,
+  getModelsEndpoint,
+  probeModelsEndpoint,
+} from './validate.js'
+
+export type { ProviderInstance, ProviderFactory, ProviderLoader } from './bundled.js'
+export { loadProvider, isProviderInstalled, getAllProviderPackages, registerBundledProvider } from './bundled.js'
+export type { FallbackOptions } from './fallback.js'
+export type { ProviderStoreEvents, RequestEvent, RequestUsage } from './events.js'
+export { createFallbackLanguageModel, isFallbackError } from './fallback.js'
+export type { LanguageModelMiddleware } from './middleware.js'
+export type { ResponseCacheOptions } from './cache.js'
+export type { BudgetConfig, BudgetPeriod, BudgetStatus, BudgetWarning } from './budget.js'
+export type { CircuitBreakerOptions, CircuitState, CircuitStatus, ProviderHealth } from './circuit.js'
+export { createResponseCacheMiddleware } from './cache.js'
+export { wrapLanguageModel } from './middleware.js'
+export type { UsageRecord, UsageTotals, UsageTracker, UsageTrackerOptions } from './usage.js'
+export { computeCost, createUsageTracker } from './usage.js'
+export { createRetryFetch } from './retry.js'
+export type { ValidateOptions, ValidationResult, ValidationStatus } from './validate.js'
+export type { LiveSyncOptions, LiveSyncResult } from './live.js'
+export type { ModelCriteria, SelectedModel } from './select.js'
+export type { DiscoveredLocalServer, LocalDiscoveryOptions, LocalServer } from './local.js'
+export { LOCAL_SERVERS } from './local.js'
 
 const log = createLogger('provider')
 
@@ -35,23 +108,80 @@ const DEFAULT_PROVIDERS: Record<string, { name: string; env: string[]; bundledPr
   groq: { name: 'Groq', env: ['GROQ_API_KEY'], bundledProvider: '@ai-sdk/groq' },
   openrouter: { name: 'OpenRouter', env: ['OPENROUTER_API_KEY'], bundledProvider: '@openrouter/ai-sdk-provider' },
   'github-copilot': { name: 'GitHub Copilot', env: [], bundledProvider: '@ai-sdk/openai-compatible' },
+  deepseek: { name: 'DeepSeek', env: ['DEEPSEEK_API_KEY'], bundledProvider: '@ai-sdk/deepseek' },
+  cerebras: { name: 'Cerebras', env: ['CEREBRAS_API_KEY'], bundledProvider: '@ai-sdk/cerebras' },
+  togetherai: {
+    name: 'Together AI',
+    env: ['TOGETHER_API_KEY', 'TOGETHER_AI_API_KEY'],
+    bundledProvider: '@ai-sdk/togetherai',
+  },
+  'fireworks-ai': { name: 'Fireworks', env: ['FIREWORKS_API_KEY'], bundledProvider: '@ai-sdk/fireworks' },
+  perplexity: { name: 'Perplexity', env: ['PERPLEXITY_API_KEY'], bundledProvider: '@ai-sdk/perplexity' },
+  cohere: { name: 'Cohere', env: ['COHERE_API_KEY'], bundledProvider: '@ai-sdk/cohere' },
+  deepinfra: { name: 'DeepInfra', env: ['DEEPINFRA_API_KEY'], bundledProvider: '@ai-sdk/deepinfra' },
+  baseten: { name: 'Baseten', env: ['BASETEN_API_KEY'], bundledProvider: '@ai-sdk/baseten' },
+  vercel: { name: 'Vercel AI Gateway', env: ['AI_GATEWAY_API_KEY'], bundledProvider: '@ai-sdk/gateway' },
+  huggingface: {
+    name: 'Hugging Face',
+    env: ['HUGGINGFACE_API_KEY', 'HF_TOKEN'],
+    bundledProvider: '@ai-sdk/huggingface',
+  },
 }
 
 function resolveBundledProviderKey(providerId: string, catalogProvider?: CatalogProvider): string | undefined {
   if (catalogProvider?.bundledProvider !== undefined) return catalogProvider.bundledProvider
-  return DEFAULT_PROVIDERS[providerId]?.bundledProvider
+  return DEFAULT_PROVIDERS[parseAccountId(providerId).providerId]?.bundledProvider
 }
 
 export interface ProviderStoreConfig {
   userConfig?: Record<string, ProviderUserConfig>
+  /** Alias name → "provider/model" target, e.g. `{ smart: 'anthropic/claude-sonnet-4-6' }` */
+  aliases?: Record<string, string>
+  /** Wraps every language model handed out by the store. The first entry is the outermost. */
+  middleware?: LanguageModelMiddleware[]
+  /** Middleware for all models of one provider, keyed by provider id. Runs inside `middleware`. */
+  providerMiddleware?: Record<string, LanguageModelMiddleware[]>
+  /** Middleware for a single model, keyed by "provider/model". Runs innermost. */
+  modelMiddleware?: Record<string, LanguageModelMiddleware[]>
+  /** Opt-in response cache, applied directly around each upstream model */
+  cache?: ResponseCacheOptions
+  /** Receives token usage and cost of every language model call. Defaults to an in-memory tracker. */
+  usage?: UsageTracker
+  /** Daily/monthly spend caps. Provider caps can also be set via `ProviderUserConfig.budget`. */
+  budgets?: BudgetConfig
+  /** Per-provider circuit breaker thresholds; `false` disables it */
+  circuitBreaker?: CircuitBreakerOptions | false
+  /** Sync model lists from the providers' own APIs once, after the first catalog refresh (default false) */
+  liveModels?: boolean
+}
+
+function createStoreBudgetGuard(config?: ProviderStoreConfig): BudgetGuard | undefined {
+  const fromUserConfig = Object.fromEntries(
+    Object.entries(config?.userConfig ?? {}).flatMap(([id, c]) => (c.budget !== undefined ? [[id, c.budget]] : []))
+  )
+  const providers = { ...fromUserConfig, ...config?.budgets?.providers }
+  const budgets = config?.budgets
+  if (budgets?.total === undefined && budgets?.models === undefined && Object.keys(providers).length === 0) {
+    return undefined
+  }
+  return createBudgetGuard({ ...budgets, providers })
 }
 
 export interface ProviderListOptions {
   includeUnavailable?: boolean
 }
 
+export interface ProviderListEntry extends CatalogProvider {
+  /** Set on named accounts, whose id is "provider:account" */
+  account?: string
+  /** 'down' while the circuit is open, 'degraded' after recent failures */
+  health: ProviderHealth
+}
+
 export interface ModelListOptions {
   includeUnavailable?: boolean
+  /** Only return models of this type. Models without an explicit type are treated as 'chat'. */
+  type?: ModelType
 }
 
 export interface GetModelOptions {
@@ -59,10 +189,80 @@ export interface GetModelOptions {
 }
 
 export interface ProviderStore {
+  getLanguageModel(ref: string): Promise<LanguageModelV3>
   getLanguageModel(providerId: string, modelId: string): Promise<LanguageModelV3>
+  /**
+   * Resolve an ordered list of candidates into one model that retries the next
+   * candidate on auth failures, 429s, 5xx and network errors. Candidates whose
+   * provider has no credential are skipped.
+   */
+  getLanguageModelWithFallback(
+    candidates: Array<string | ModelRef>,
+    options?: FallbackOptions
+  ): Promise<LanguageModelV3>
+  getEmbeddingModel(ref: string): Promise<EmbeddingModelV3>
+  getEmbeddingModel(providerId: string, modelId: string): Promise<EmbeddingModelV3>
+  getImageModel(ref: string): Promise<ImageModelV3>
+  getImageModel(providerId: string, modelId: string): Promise<ImageModelV3>
+  getSpeechModel(ref: string): Promise<SpeechModelV3>
+  getSpeechModel(providerId: string, modelId: string): Promise<SpeechModelV3>
+  getTranscriptionModel(ref: string): Promise<TranscriptionModelV3>
+  getTranscriptionModel(providerId: string, modelId: string): Promise<TranscriptionModelV3>
+  getRerankingModel(ref: string): Promise<RerankingModelV3>
+  getRerankingModel(providerId: string, modelId: string): Promise<RerankingModelV3>
   extend(config: ExtendConfig): void
-  listProviders(options?: ProviderListOptions): Promise<CatalogProvider[]>
+  /**
+   * Forget cached provider state and SDK instances, for one provider or all of
+   * them, so credentials changed in the auth store are picked up. extend() and
+   * OAuth refreshes done by plugins invalidate on their own, and SDK instances
+   * whose options did not change are kept.
+   */
+  invalidate(providerId?: string): void
+  /**
+   * Probe localhost for Ollama, LM Studio, llama.cpp and vLLM and register each
+   * server found as a provider with its installed models. Local providers need
+   * no credential.
+   */
+  discoverLocalServers(options?: LocalDiscoveryOptions): Promise<DiscoveredLocalServer[]>
+  listAliases(): ModelAlias[]
+  /** Per-key usage and cooldown state for a provider backed by a credential pool */
+  getKeyPoolStatus(providerId: string): PooledKeyStatus[] | undefined
+  /** Token usage and cost of every language model call made through this store */
+  readonly usage: UsageTracker
+  /**
+   * Request lifecycle, credential, catalog and discovery events. Listeners run
+   * synchronously, so slow work should be deferred.
+   */
+  readonly events: EventEmitter<ProviderStoreEvents>
+  /** Spend against every configured budget in the current day and month */
+  getBudgetStatus(): BudgetStatus[]
+  /**
+   * Check a provider's credential with the cheapest authenticated call it
+   * supports: a models listing, or a 1-token generation for OAuth/plugin
+   * credentials and providers without a usable listing endpoint.
+   */
+  validate(providerId: string, options?: ValidateOptions): Promise<ValidationResult>
+  /** validate() every installed provider that has a credential; local servers are skipped */
+  validateAll(options?: ValidateOptions): Promise<ValidationResult[]>
+  /**
+   * List models from each credentialed provider's own API (OpenAI, Anthropic,
+   * Google, OpenRouter, Groq, Mistral, Copilot, ...) and merge them into the
+   * catalog with provenance 'live', so fine-tunes and models newer than
+   * models.dev resolve. Providers that fail keep their previous listing.
+   */
+  syncLiveModels(options?: LiveSyncOptions): Promise<LiveSyncResult[]>
+  /** Circuit state and recent failure counts for a provider */
+  getProviderHealth(providerId: string): CircuitStatus
+  listProviders(options?: ProviderListOptions): Promise<ProviderListEntry[]>
   listModels(providerId?: string, options?: ModelListOptions): Promise<ModelDefinition[]>
+  /**
+   * Chat models the current credentials can use that meet the criteria, ranked
+   * by cost (default) or context window, as ready-to-use language models.
+   * Providers whose circuit is open are left out.
+   */
+  selectModels(criteria?: ModelCriteria): Promise<SelectedModel[]>
+  /** The top-ranked model of selectModels(), if any */
+  selectModel(criteria?: ModelCriteria): Promise<SelectedModel | undefined>
   getModel(providerId: string, modelId: string, options?: GetModelOptions): Promise<ModelDefinition | undefined>
 }
 
@@ -80,18 +280,78 @@ export function createProviderStore(authStore: AuthStore, config?: ProviderStore
       ])
     ),
   })
+  if (config?.aliases !== undefined) {
+    catalog.extend({ aliases: config.aliases })
+  }
   const userConfig = config?.userConfig
   let stateCache: Promise<Record<string, import('./state.js').ProviderState>> | null = null
   let catalogRefreshTask: Promise<void> | null = null
+  const keyPools = new Map<string, KeyPool>()
+  const rateLimiters = new Map<string, RateLimiter>()
+  const instances = createInstanceCache()
+  const responseCache = config?.cache !== undefined ? createResponseCache(config.cache) : undefined
+  const usage = config?.usage ?? createUsageTracker()
+  const budgetGuard = createStoreBudgetGuard(config)
+  const circuitBreaker = config?.circuitBreaker === false ? undefined : createCircuitBreaker(config?.circuitBreaker)
+  if (budgetGuard !== undefined) usage.subscribe((record) => budgetGuard.record(record))
+  const events = createEventHub<ProviderStoreEvents>()
+  // Providers whose refreshed credential is being saved; that save is reported as credential:refreshed only
+  const refreshing = new Set<string>()
+  authStore.events?.on('credential:changed', (change) => {
+    if (refreshing.has(change.providerId)) return
+    log('%s: credential changed in the auth store, dropping cached state', change.providerId)
+    invalidate(change.providerId)
+    events.emit('credential:changed', change)
+  })
 
   function invalidateState() {
     stateCache = null
   }
 
+  function invalidate(providerId?: string) {
+    if (providerId === undefined || stateCache === null) invalidateState()
+    else {
+      // Rebuild this provider only; the others keep their state and SDK instances
+      const rebuilt = Promise.all([stateCache, buildState(providerId)]).then(([state, update]) => {
+        const { [providerId]: _previous, ...rest } = state
+        return { ...rest, ...update }
+      })
+      stateCache = rebuilt
+      rebuilt.catch(() => {
+        if (stateCache === rebuilt) invalidateState()
+      })
+    }
+    instances.invalidate(providerId)
+  }
+
+  function buildState(only?: string) {
+    return buildProviderState({
+      catalog,
+      authStore,
+      userConfig,
+      only,
+      saveCredential: async (providerId, credential) => {
+        refreshing.add(providerId)
+        try {
+          await authStore.set(providerId, credential)
+        } finally {
+          refreshing.delete(providerId)
+        }
+        log('%s: credential refreshed, dropping cached state', providerId)
+        invalidate(providerId)
+        events.emit('credential:refreshed', { providerId, credential })
+      },
+    })
+  }
+
   function getState() {
     if (stateCache === null) {
       log('initializing provider state')
-      stateCache = buildProviderState({ catalog, authStore, userConfig })
+      const building = buildState()
+      stateCache = building
+      building.catch(() => {
+        if (stateCache === building) invalidateState()
+      })
     }
     return stateCache
   }
@@ -106,7 +366,18 @@ export function createProviderStore(authStore: AuthStore, config?: ProviderStore
         }
         log('catalog refreshed with %d providers', result.updatedProviders.length)
         invalidateState()
+        events.emit('catalog:refreshed', { source: 'remote', providers: result.updatedProviders })
       })()
+      if (config?.liveModels === true) {
+        catalogRefreshTask = catalogRefreshTask.then(async () => {
+          await syncLiveModels()
+        })
+      }
+      // A failed refresh is tried again by the next call instead of failing every later one
+      const task = catalogRefreshTask
+      task.catch(() => {
+        if (catalogRefreshTask === task) catalogRefreshTask = null
+      })
     }
     await catalogRefreshTask
   }
@@ -116,59 +387,486 @@ export function createProviderStore(authStore: AuthStore, config?: ProviderStore
     return providerState !== undefined && providerState.source !== 'none'
   }
 
+  /** Catalog entry of a provider; named accounts ("openai:work") resolve to their provider's entry */
+  function getCatalogProvider(providerId: string): CatalogProvider | undefined {
+    return catalog.getProvider(parseAccountId(providerId).providerId)
+  }
+
+  function listCatalogModels(providerId: string): ModelDefinition[] {
+    return catalog.listModels(parseAccountId(providerId).providerId)
+  }
+
+  /** Catalog providers followed by the named accounts configured in the auth store or user config */
+  function listProviderIds(state: Record<string, import('./state.js').ProviderState>): string[] {
+    return Object.keys(state)
+  }
+
   async function checkProviderUsable(providerId: string): Promise<boolean> {
-    const catalogProvider = catalog.getProvider(providerId)
+    const catalogProvider = getCatalogProvider(providerId)
     const bundledKey = resolveBundledProviderKey(providerId, catalogProvider)
     if (bundledKey === undefined) return false
     return isProviderInstalled(bundledKey)
   }
 
+  /**
+   * Resolve the arguments of the get*Model() accessors. A single string is looked
+   * up as an alias first and otherwise parsed as "provider/model".
+   */
+  function resolveModelRef(providerIdOrRef: string, modelId?: string): ModelRef {
+    if (modelId !== undefined) return { providerId: providerIdOrRef, modelId }
+
+    const alias = catalog.getAlias(providerIdOrRef)
+    if (alias !== undefined) {
+      log('resolved alias %s -> %s/%s', providerIdOrRef, alias.provider, alias.model)
+      return { providerId: alias.provider, modelId: alias.model }
+    }
+
+    const parsed = parseModelRef(providerIdOrRef)
+    if (parsed === undefined) {
+      throw new ModelNotFoundError(
+        `Unknown model reference: ${providerIdOrRef}. Use a registered alias or "provider/model".`
+      )
+    }
+    return parsed
+  }
+
+  function createProviderInstance(method: string, providerId: string, modelId: string): Promise<ProviderInstance> {
+    const attributes = {
+      'openllmprovider.operation': method,
+      'openllmprovider.provider.id': providerId,
+      'openllmprovider.model.id': modelId,
+    }
+    return withSpan('openllmprovider.resolve_model', attributes, (span) =>
+      resolveProviderInstance(method, providerId, modelId, span)
+    )
+  }
+
+  async function resolveProviderInstance(
+    method: string,
+    providerId: string,
+    modelId: string,
+    span: SpanHandle
+  ): Promise<ProviderInstance> {
+    await ensureCatalogEnriched()
+    const state = await getState()
+    const providerState = state[providerId]
+
+    log(
+      '%s(%s, %s) — auth: source=%s, location=%s',
+      method,
+      providerId,
+      modelId,
+      providerState?.source ?? 'none',
+      providerState?.location ?? 'unknown'
+    )
+    if (providerState === undefined) {
+      throw new ProviderNotRegisteredError(`Provider not found in catalog: ${providerId}`, { providerID: providerId })
+    }
+
+    const catalogProvider = getCatalogProvider(providerId)
+    const bundledKey = resolveBundledProviderKey(providerId, catalogProvider)
+    span.setAttributes({
+      'openllmprovider.credential.source': providerState.source,
+      'openllmprovider.package': bundledKey,
+    })
+
+    const { factory, sdkOptions, pooled, packageName } = await loadProviderFactory(providerState, bundledKey)
+    // the factory is part of the fingerprint so re-registering a package rebuilds its instances
+    const fingerprint = fingerprintOptions(packageName, { ...sdkOptions, pool: pooled, factory })
+
+    return instances.get(providerId, fingerprint, () => {
+      log('creating SDK for %s using %s', providerId, packageName)
+      if (pooled !== undefined) {
+        const pool = getKeyPool(providerId, pooled)
+        log('using %d-key credential pool for %s', pool.size, providerId)
+        const perKey = new Map<string, ProviderInstance>()
+        return createPooledProviderInstance(pool, (key) => {
+          let instance = perKey.get(key.key)
+          if (instance === undefined) {
+            instance = instrumentLanguageModels(factory({ ...sdkOptions, apiKey: key.key }), providerId, key.label)
+            perKey.set(key.key, instance)
+          }
+          return instance
+        })
+      }
+      return instrumentLanguageModels(factory(sdkOptions), providerId, providerState.location ?? providerState.source)
+    })
+  }
+
+  /** The SDK factory of a provider and the options its instances are created with */
+  async function loadProviderFactory(
+    providerState: import('./state.js').ProviderState,
+    bundledKey: string | undefined
+  ) {
+    const providerId = providerState.id
+    if (bundledKey === undefined) {
+      throw new ProviderNotRegisteredError(
+        `No bundled provider mapping found for: ${providerId}. Set bundledProvider in catalog extend() config.`,
+        { providerID: providerId }
+      )
+    }
+
+    const factory = await loadProvider(bundledKey)
+
+    if (factory === undefined) {
+      throw new ProviderNotRegisteredError(
+        `Provider package not available: ${bundledKey}. Install it with: npm install ${bundledKey}`,
+        { providerID: providerId }
+      )
+    }
+
+    const sdkOptions = { ...providerState.options }
+    if (providerState.key !== undefined) {
+      sdkOptions.apiKey = providerState.key
+    }
+    // authToken and apiKey must not coexist (e.g. @ai-sdk/anthropic rejects both)
+    const pooled = sdkOptions.authToken === undefined ? providerState.pool : undefined
+    if (sdkOptions.authToken !== undefined) {
+      sdkOptions.apiKey = undefined
+    }
+    return { factory, sdkOptions, pooled, packageName: bundledKey }
+  }
+
+  /**
+   * Wrap the language models of an SDK instance with request events and
+   * per-credential guards: circuit breaking, spend caps, rate limiting and
+   * usage metering. Events are outermost so refusals are reported too. They sit
+   * directly around the upstream model, so response cache hits are neither
+   * counted, throttled nor refused. Innermost, failed streams end with an error
+   * part that every guard sees.
+   */
+  function instrumentLanguageModels(sdk: ProviderInstance, providerId: string, credential: string): ProviderInstance {
+    const limiter = getRateLimiter(providerId, credential)
+    return new Proxy(sdk, {
+      get(target, prop, receiver) {
+        if (prop !== 'languageModel') return Reflect.get(target, prop, receiver)
+        return (modelId: string) => {
+          const getCost = () => catalog.getModel(parseAccountId(providerId).providerId, modelId)?.cost
+          return wrapLanguageModel(target.languageModel(modelId), [
+            createRequestEventsMiddleware({ events, providerId, modelId, credential, getCost }),
+            ...(circuitBreaker !== undefined ? [createCircuitBreakerMiddleware(circuitBreaker, providerId)] : []),
+            ...(budgetGuard !== undefined ? [createBudgetMiddleware(budgetGuard, providerId, modelId)] : []),
+            ...(limiter !== undefined ? [createRateLimitMiddleware(limiter)] : []),
+            createUsageMiddleware({
+              tracker: usage,
+              providerId,
+              modelId,
+              credential,
+              getCost,
+            }),
+            createStreamErrorMiddleware(),
+          ])
+        }
+      },
+    })
+  }
+
+  /**
+   * Provider- and model-scoped middleware plus the response cache, which sits
+   * innermost so fallback candidates are cached individually. Global middleware
+   * is applied separately.
+   */
+  function withScopedMiddleware(model: LanguageModelV3, providerId: string, modelId: string): LanguageModelV3 {
+    const scoped = [
+      ...(config?.providerMiddleware?.[providerId] ?? []),
+      ...(config?.modelMiddleware?.[formatModelRef({ providerId, modelId })] ?? []),
+      ...(responseCache !== undefined ? [responseCache.middleware(providerId)] : []),
+    ]
+    return scoped.length > 0 ? wrapLanguageModel(model, scoped) : model
+  }
+
+  function withGlobalMiddleware(model: LanguageModelV3): LanguageModelV3 {
+    const global = config?.middleware ?? []
+    return global.length > 0 ? wrapLanguageModel(model, global) : model
+  }
+
+  /** The cheapest non-deprecated chat model of a provider, used for 1-token validation calls */
+  function cheapestChatModel(providerId: string): ModelDefinition | undefined {
+    const candidates = listCatalogModels(providerId).filter(
+      (m) => (m.type ?? 'chat') === 'chat' && m.status !== 'deprecated'
+    )
+    return candidates.sort(
+      (a, b) => (a.cost?.input ?? Number.POSITIVE_INFINITY) - (b.cost?.input ?? Number.POSITIVE_INFINITY)
+    )[0]
+  }
+
+  async function validateProvider(providerId: string, options?: ValidateOptions): Promise<ValidationResult> {
+    const started = performance.now()
+    await ensureCatalogEnriched()
+    const state = await getState()
+    const providerState = state[providerId]
+    if (providerState === undefined) {
+      throw new ProviderNotRegisteredError(`Provider not found in catalog: ${providerId}`, { providerID: providerId })
+    }
+    const credential = providerState.location ?? providerState.source
+    const finish = (result: Omit<ValidationResult, 'providerId' | 'latencyMs' | 'credential'>): ValidationResult => {
+      const latencyMs = Math.round(performance.now() - started)
+      log('validate(%s): %s in %dms', providerId, result.status, latencyMs)
+      return { providerId, ...result, latencyMs, credential }
+    }
+    if (!hasProviderAuth(state, providerId)) return finish({ status: 'no_credential', valid: false })
+
+    const oauth = (await authStore.get(providerId))?.type === 'oauth'
+    const signal = AbortSignal.timeout(options?.timeoutMs ?? DEFAULT_VALIDATE_TIMEOUT_MS)
+    const bundledKey = resolveBundledProviderKey(providerId, getCatalogProvider(providerId))
+    const endpoint = bundledKey !== undefined ? getModelsEndpoint(bundledKey) : undefined
+    const baseURL = typeof providerState.options.baseURL === 'string' ? providerState.options.baseURL : undefined
+    // OAuth tokens are often not scoped for model listings, and plugins may route requests elsewhere
+    const listable =
+      endpoint !== undefined &&
+      !oauth &&
+      providerState.source !== 'plugin' &&
+      providerState.key !== undefined &&
+      (baseURL ?? endpoint.defaultBaseURL) !== ''
+
+    let method: ValidationResult['method']
+    try {
+      if (listable) {
+        method = 'models'
+        const listed = await probeModelsEndpoint({
+          endpoint,
+          baseURL,
+          key: providerState.key as string,
+          headers: providerState.options.headers as Record<string, string> | undefined,
+          // The raw fetch, so the probe reads the status itself instead of getting a retried, typed error
+          fetch: providerState.baseFetch ?? globalThis.fetch,
+          oauth,
+          signal,
+        }).catch((error: unknown) => {
+          // compatible servers without a models listing answer 404; try a generation instead
+          if (errorStatusCode(error) === 404) return undefined
+          throw error
+        })
+        if (listed !== undefined && listed.statusCode !== 404) return finish(listed)
+      }
+
+      const model = cheapestChatModel(providerId)
+      if (model === undefined) {
+        return finish({ status: 'error', valid: false, message: 'No chat model in the catalog to validate with' })
+      }
+      method = 'generate'
+      // Uncached and unwrapped, so a health check is neither retried, metered, throttled, budgeted nor
+      // counted by the circuit breaker; failures surface as the SDK's own errors
+      const { factory, sdkOptions } = await loadProviderFactory(providerState, bundledKey)
+      const sdk = factory({ ...sdkOptions, fetch: providerState.baseFetch })
+      await sdk.languageModel(model.modelId).doGenerate({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'ping' }] }],
+        maxOutputTokens: 1,
+        abortSignal: signal,
+      })
+      return finish({ status: 'valid', valid: true, method })
+    } catch (error) {
+      return finish({ ...classifyValidationError(error, oauth), ...(method !== undefined ? { method } : {}) })
+    }
+  }
+
+  async function syncProviderModels(
+    providerState: import('./state.js').ProviderState,
+    bundledKey: string,
+    timeoutMs: number
+  ): Promise<LiveSyncResult> {
+    const providerId = providerState.id
+    const { baseURL, fetch, headers } = providerState.options
+    try {
+      const models = await fetchModelListing({
+        bundledProvider: bundledKey,
+        baseURL: typeof baseURL === 'string' ? baseURL : undefined,
+        // plugin fetches (Copilot) replace the auth header themselves
+        key: providerState.key ?? '',
+        headers: headers as Record<string, string> | undefined,
+        fetch: typeof fetch === 'function' ? (fetch as typeof globalThis.fetch) : globalThis.fetch,
+        signal: AbortSignal.timeout(timeoutMs),
+      })
+      catalog.setLiveModels(providerId, models)
+      return { providerId, models: models.length }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      log('live sync of %s failed: %s', providerId, message)
+      return { providerId, models: 0, error: message }
+    }
+  }
+
+  /** Runs inside ensureCatalogEnriched() when `liveModels` is set, so it must not await it */
+  async function syncLiveModels(options?: LiveSyncOptions): Promise<LiveSyncResult[]> {
+    const state = await getState()
+    const wanted = options?.providers !== undefined ? new Set(options.providers) : undefined
+    // accounts share their provider's catalog entry, so only top-level providers are synced
+    const timeoutMs = options?.timeoutMs ?? DEFAULT_LIVE_SYNC_TIMEOUT_MS
+    const syncs = Object.values(state).flatMap((providerState) => {
+      if (wanted !== undefined && !wanted.has(providerState.id)) return []
+      if (parseAccountId(providerState.id).account !== undefined) return []
+      if (providerState.source === 'none' || providerState.source === 'local') return []
+      const bundledKey = resolveBundledProviderKey(providerState.id, getCatalogProvider(providerState.id))
+      if (bundledKey === undefined || !hasModelListing(bundledKey)) return []
+      return [syncProviderModels(providerState, bundledKey, timeoutMs)]
+    })
+    const results = await Promise.all(syncs)
+    const listed = results.flatMap((r) => (r.error === undefined ? [r.providerId] : []))
+    if (listed.length > 0) events.emit('catalog:refreshed', { source: 'live', providers: listed })
+    log('live sync: %d of %d providers listed', results.filter((r) => r.error === undefined).length, results.length)
+    return results
+  }
+
+  /** Limiters are shared by every model using the same credential and outlive state rebuilds */
+  function getRateLimiter(providerId: string, credential: string): RateLimiter | undefined {
+    const limit = userConfig?.[providerId]?.rateLimit ?? getCatalogProvider(providerId)?.rateLimit
+    if (limit === undefined) return undefined
+    const id = `${providerId}:${credential}`
+    const existing = rateLimiters.get(id)
+    if (existing?.matches(limit)) return existing
+    const created = createRateLimiter(limit)
+    rateLimiters.set(id, created)
+    log('rate limiting %s: %o', id, limit)
+    return created
+  }
+
+  /** Pools outlive state rebuilds so usage and cooldowns survive extend() and credential edits */
+  function getKeyPool(providerId: string, pool: CredentialPool): KeyPool {
+    const existing = keyPools.get(providerId)
+    if (existing?.matches(pool)) return existing
+    const created = createKeyPool(pool)
+    keyPools.set(providerId, created)
+    return created
+  }
+
+  async function selectModels(criteria: ModelCriteria = {}): Promise<SelectedModel[]> {
+    await ensureCatalogEnriched()
+    const state = await getState()
+    const candidates: ModelCandidate[] = []
+    for (const providerId of listProviderIds(state)) {
+      if (criteria.providers !== undefined && !criteria.providers.includes(providerId)) continue
+      if (!hasProviderAuth(state, providerId) || !(await checkProviderUsable(providerId))) continue
+      if (circuitBreaker !== undefined && !circuitBreaker.canRequest(providerId)) continue
+      for (const definition of listCatalogModels(providerId)) candidates.push({ providerId, definition })
+    }
+
+    const selected: SelectedModel[] = []
+    for (const { providerId, definition } of rankModels(candidates, criteria)) {
+      if (criteria.limit !== undefined && selected.length >= criteria.limit) break
+      const modelId = definition.modelId
+      try {
+        const sdk = await createProviderInstance('selectModel', providerId, modelId)
+        const model = withGlobalMiddleware(withScopedMiddleware(sdk.languageModel(modelId), providerId, modelId))
+        selected.push({ providerId, modelId, definition, model })
+      } catch (error) {
+        log('select: skipping %s/%s (%s)', providerId, modelId, error instanceof Error ? error.message : String(error))
+      }
+    }
+    log('select: %d model(s) match', selected.length)
+    return selected
+  }
+
   return {
-    async getLanguageModel(providerId: string, modelId: string): Promise<LanguageModelV3> {
+    async getLanguageModel(providerIdOrRef: string, maybeModelId?: string): Promise<LanguageModelV3> {
+      const { providerId, modelId } = resolveModelRef(providerIdOrRef, maybeModelId)
+      circuitBreaker?.assertAvailable(providerId)
+      const sdk = await createProviderInstance('getLanguageModel', providerId, modelId)
+      log('calling sdk.languageModel(%s)', modelId)
+      return withGlobalMiddleware(withScopedMiddleware(sdk.languageModel(modelId), providerId, modelId))
+    },
+
+    async getLanguageModelWithFallback(
+      candidates: Array<string | ModelRef>,
+      options?: FallbackOptions
+    ): Promise<LanguageModelV3> {
       await ensureCatalogEnriched()
       const state = await getState()
-      const providerState = state[providerId]
-
-      log(
-        'getLanguageModel(%s, %s) — auth: source=%s, location=%s',
-        providerId,
-        modelId,
-        providerState?.source ?? 'none',
-        providerState?.location ?? 'unknown'
-      )
-      if (providerState === undefined) {
-        throw new Error(`Provider not found in catalog: ${providerId}`)
-      }
+      const models: LanguageModelV3[] = []
 
-      const catalogProvider = catalog.getProvider(providerId)
-      const bundledKey = resolveBundledProviderKey(providerId, catalogProvider)
+      for (const candidate of candidates) {
+        const { providerId, modelId } =
+          typeof candidate === 'string'
+            ? resolveModelRef(candidate)
+            : resolveModelRef(candidate.providerId, candidate.modelId)
+        if (!hasProviderAuth(state, providerId)) {
+          log('fallback: skipping %s/%s (no credential)', providerId, modelId)
+          continue
+        }
+        try {
+          const sdk = await createProviderInstance('getLanguageModelWithFallback', providerId, modelId)
+          models.push(withScopedMiddleware(sdk.languageModel(modelId), providerId, modelId))
+        } catch (error) {
+          log(
+            'fallback: skipping %s/%s (%s)',
+            providerId,
+            modelId,
+            error instanceof Error ? error.message : String(error)
+          )
+        }
+      }
 
-      if (bundledKey === undefined) {
-        throw new Error(
-          `No bundled provider mapping found for: ${providerId}. Set bundledProvider in catalog extend() config.`
-        )
+      if (models.length === 0) {
+        const names = candidates.map((c) => (typeof c === 'string' ? c : formatModelRef(c)))
+        throw new CredentialNotFoundError(`No usable fallback candidate: ${names.join(', ')}`)
       }
+      log('fallback chain: %s', models.map((m) => `${m.provider}/${m.modelId}`).join(' -> '))
+      return withGlobalMiddleware(createFallbackLanguageModel(models, options))
+    },
 
-      const factory = await loadProvider(bundledKey)
+    async getEmbeddingModel(providerIdOrRef: string, maybeModelId?: string): Promise<EmbeddingModelV3> {
+      const { providerId, modelId } = resolveModelRef(providerIdOrRef, maybeModelId)
+      const sdk = await createProviderInstance('getEmbeddingModel', providerId, modelId)
+      if (typeof sdk.embeddingModel === 'function') {
+        log('calling sdk.embeddingModel(%s)', modelId)
+        return sdk.embeddingModel(modelId)
+      }
+      if (typeof sdk.textEmbeddingModel === 'function') {
+        log('calling sdk.textEmbeddingModel(%s)', modelId)
+        return sdk.textEmbeddingModel(modelId)
+      }
+      throw new ValidationError(`Provider does not support embedding models: ${providerId}`, { providerID: providerId })
+    },
 
-      if (factory === undefined) {
-        throw new Error(`Provider package not available: ${bundledKey}. Install it with: npm install ${bundledKey}`)
+    async getImageModel(providerIdOrRef: string, maybeModelId?: string): Promise<ImageModelV3> {
+      const { providerId, modelId } = resolveModelRef(providerIdOrRef, maybeModelId)
+      const sdk = await createProviderInstance('getImageModel', providerId, modelId)
+      if (typeof sdk.imageModel !== 'function') {
+        throw new ValidationError(`Provider does not support image models: ${providerId}`, { providerID: providerId })
       }
+      log('calling sdk.imageModel(%s)', modelId)
+      return sdk.imageModel(modelId)
+    },
 
-      log('creating SDK for %s using %s', providerId, bundledKey)
+    async getSpeechModel(providerIdOrRef: string, maybeModelId?: string): Promise<SpeechModelV3> {
+      const { providerId, modelId } = resolveModelRef(providerIdOrRef, maybeModelId)
+      const sdk = await createProviderInstance('getSpeechModel', providerId, modelId)
+      if (typeof sdk.speechModel === 'function') {
+        log('calling sdk.speechModel(%s)', modelId)
+        return sdk.speechModel(modelId)
+      }
+      if (typeof sdk.speech === 'function') {
+        log('calling sdk.speech(%s)', modelId)
+        return sdk.speech(modelId)
+      }
+      throw new ValidationError(`Provider does not support speech models: ${providerId}`, { providerID: providerId })
+    },
 
-      const sdkOptions = { ...providerState.options }
-      if (providerState.key !== undefined) {
-        sdkOptions.apiKey = providerState.key
+    async getTranscriptionModel(providerIdOrRef: string, maybeModelId?: string): Promise<TranscriptionModelV3> {
+      const { providerId, modelId } = resolveModelRef(providerIdOrRef, maybeModelId)
+      const sdk = await createProviderInstance('getTranscriptionModel', providerId, modelId)
+      if (typeof sdk.transcriptionModel === 'function') {
+        log('calling sdk.transcriptionModel(%s)', modelId)
+        return sdk.transcriptionModel(modelId)
       }
-      // authToken and apiKey must not coexist (e.g. @ai-sdk/anthropic rejects both)
-      if (sdkOptions.authToken !== undefined) {
-        sdkOptions.apiKey = undefined
+      if (typeof sdk.transcription === 'function') {
+        log('calling sdk.transcription(%s)', modelId)
+        return sdk.transcription(modelId)
       }
+      throw new ValidationError(`Provider does not support transcription models: ${providerId}`, {
+        providerID: providerId,
+      })
+    },
 
-      const sdk = factory(sdkOptions)
-      log('calling sdk.languageModel(%s)', modelId)
-      return sdk.languageModel(modelId)
+    async getRerankingModel(providerIdOrRef: string, maybeModelId?: string): Promise<RerankingModelV3> {
+      const { providerId, modelId } = resolveModelRef(providerIdOrRef, maybeModelId)
+      const sdk = await createProviderInstance('getRerankingModel', providerId, modelId)
+      if (typeof sdk.rerankingModel !== 'function') {
+        throw new ValidationError(`Provider does not support reranking models: ${providerId}`, {
+          providerID: providerId,
+        })
+      }
+      log('calling sdk.rerankingModel(%s)', modelId)
+      return sdk.rerankingModel(modelId)
     },
 
     extend(extendConfig: ExtendConfig): void {
@@ -176,26 +874,89 @@ export function createProviderStore(authStore: AuthStore, config?: ProviderStore
       invalidateState()
     },
 
-    async listProviders(options?: ProviderListOptions): Promise<CatalogProvider[]> {
+    invalidate,
+
+    async discoverLocalServers(options?: LocalDiscoveryOptions): Promise<DiscoveredLocalServer[]> {
+      const servers = await probeLocalServers(options)
+      if (servers.length > 0) {
+        catalog.extend(toLocalProviderConfig(servers))
+        invalidateState()
+        events.emit('discover:found', { servers })
+      }
+      return servers
+    },
+
+    listAliases(): ModelAlias[] {
+      return catalog.listAliases()
+    },
+
+    getKeyPoolStatus(providerId: string): PooledKeyStatus[] | undefined {
+      return keyPools.get(providerId)?.status()
+    },
+
+    usage,
+
+    events,
+
+    getBudgetStatus(): BudgetStatus[] {
+      return budgetGuard?.status() ?? []
+    },
+
+    validate(providerId: string, options?: ValidateOptions): Promise<ValidationResult> {
+      return validateProvider(providerId, options)
+    },
+
+    async validateAll(options?: ValidateOptions): Promise<ValidationResult[]> {
       await ensureCatalogEnriched()
-      const allProviders = catalog.listProviders()
+      const state = await getState()
+      // local servers have no credential to check, and a test generation could make them load a model
+      const candidates = await Promise.all(
+        listProviderIds(state).map(async (id) => ({
+          id,
+          usable: hasProviderAuth(state, id) && state[id]?.source !== 'local' && (await checkProviderUsable(id)),
+        }))
+      )
+      return Promise.all(candidates.filter((c) => c.usable).map((c) => validateProvider(c.id, options)))
+    },
+
+    async syncLiveModels(options?: LiveSyncOptions): Promise<LiveSyncResult[]> {
+      await ensureCatalogEnriched()
+      return syncLiveModels(options)
+    },
+
+    getProviderHealth(providerId: string): CircuitStatus {
+      return circuitBreaker?.status(providerId) ?? { state: 'closed', health: 'healthy', requests: 0, failures: 0 }
+    },
+
+    async listProviders(options?: ProviderListOptions): Promise<ProviderListEntry[]> {
+      await ensureCatalogEnriched()
+      const state = await getState()
 
       const usabilityChecks = await Promise.all(
-        allProviders.map(async (p) => ({ provider: p, usable: await checkProviderUsable(p.id) }))
+        listProviderIds(state).map(async (id) => ({ id, usable: await checkProviderUsable(id) }))
       )
-      const installedProviders = usabilityChecks.filter((r) => r.usable).map((r) => r.provider)
+      const installedProviders = usabilityChecks.flatMap(({ id, usable }): ProviderListEntry[] => {
+        const catalogProvider = getCatalogProvider(id)
+        if (!usable || catalogProvider === undefined) return []
+        const { account } = parseAccountId(id)
+        const health = circuitBreaker?.status(id).health ?? 'healthy'
+        return [{ ...catalogProvider, id, ...(account !== undefined ? { account } : {}), health }]
+      })
 
       if (options?.includeUnavailable === true) {
         return installedProviders
       }
-      const state = await getState()
       return installedProviders.filter((provider) => hasProviderAuth(state, provider.id))
     },
 
     async listModels(providerId?: string, options?: ModelListOptions): Promise<ModelDefinition[]> {
       await ensureCatalogEnriched()
+      const modelType = options?.type
+      const byType = (models: ModelDefinition[]) =>
+        modelType === undefined ? models : models.filter((m) => (m.type ?? 'chat') === modelType)
+
       if (options?.includeUnavailable === true) {
-        return catalog.listModels(providerId)
+        return byType(providerId !== undefined ? listCatalogModels(providerId) : catalog.listModels())
       }
 
       const state = await getState()
@@ -203,26 +964,35 @@ export function createProviderStore(authStore: AuthStore, config?: ProviderStore
         if (!hasProviderAuth(state, providerId)) {
           return []
         }
-        return catalog.listModels(providerId)
+        return byType(listCatalogModels(providerId))
       }
 
-      const allProviders = catalog.listProviders()
       const usabilityChecks = await Promise.all(
-        allProviders.map(async (p) => ({
-          provider: p,
-          usable: (await checkProviderUsable(p.id)) && hasProviderAuth(state, p.id),
+        listProviderIds(state).map(async (id) => ({
+          id,
+          usable: (await checkProviderUsable(id)) && hasProviderAuth(state, id),
         }))
       )
 
+      // accounts of the same provider share its models, so each provider is listed once
+      const listed = new Set<string>()
       const results: ModelDefinition[] = []
-      for (const { provider, usable } of usabilityChecks) {
-        if (usable) {
-          results.push(...catalog.listModels(provider.id))
+      for (const { id, usable } of usabilityChecks) {
+        const catalogId = parseAccountId(id).providerId
+        if (usable && !listed.has(catalogId)) {
+          listed.add(catalogId)
+          results.push(...byType(catalog.listModels(catalogId)))
         }
       }
       return results
     },
 
+    selectModels,
+
+    async selectModel(criteria?: ModelCriteria): Promise<SelectedModel | undefined> {
+      return (await selectModels({ ...criteria, limit: 1 }))[0]
+    },
+
     async getModel(
       providerId: string,
       modelId: string,
@@ -235,7 +1005,7 @@ export function createProviderStore(authStore: AuthStore, config?: ProviderStore
           return undefined
         }
       }
-      return catalog.getModel(providerId, modelId)
+      return catalog.getModel(parseAccountId(providerId).providerId, modelId)
     },
   }
 }
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'bun:test'
+import type { ProviderInstance } from './bundled.js'
+import { createInstanceCache, fingerprintFunction, fingerprintOptions } from './instances.js'
+
+const fakeInstance = () => ({ languageModel: () => ({}) }) as unknown as ProviderInstance
+
+describe('fingerprintOptions', () => {
+  it('is stable for equal options and changes with the key or package', () => {
+    const a = fingerprintOptions('@ai-sdk/openai', { apiKey: 'sk-a', baseURL: 'https://x' })
+    expect(fingerprintOptions('@ai-sdk/openai', { apiKey: 'sk-a', baseURL: 'https://x' })).toBe(a)
+    expect(fingerprintOptions('@ai-sdk/openai', { apiKey: 'sk-b', baseURL: 'https://x' })).not.toBe(a)
+    expect(fingerprintOptions('@ai-sdk/azure', { apiKey: 'sk-a', baseURL: 'https://x' })).not.toBe(a)
+    expect(a).not.toContain('sk-a')
+  })
+
+  it('tells functions apart by identity', () => {
+    const fetch = () => {}
+    expect(fingerprintOptions('p', { fetch })).toBe(fingerprintOptions('p', { fetch }))
+    expect(fingerprintOptions('p', { fetch })).not.toBe(fingerprintOptions('p', { fetch: () => {} }))
+  })
+
+  it('tells functions built by fingerprintFunction apart by their inputs', () => {
+    const build = (retries: number) => fingerprintFunction(() => {}, { retries })
+    expect(fingerprintOptions('p', { fetch: build(2) })).toBe(fingerprintOptions('p', { fetch: build(2) }))
+    expect(fingerprintOptions('p', { fetch: build(2) })).not.toBe(fingerprintOptions('p', { fetch: build(3) }))
+  })
+})
+
+describe('createInstanceCache', () => {
+  it('reuses instances until the fingerprint changes or the provider is invalidated', () => {
+    const cache = createInstanceCache()
+    let created = 0
+    const create = () => {
+      created++
+      return fakeInstance()
+    }
+    const first = cache.get('openai', 'f1', create)
+    expect(cache.get('openai', 'f1', create)).toBe(first)
+    expect(created).toBe(1)
+
+    expect(cache.get('openai', 'f2', create)).not.toBe(first)
+    expect(cache.size).toBe(1)
+
+    cache.get('anthropic', 'f1', create)
+    cache.invalidate('openai')
+    cache.get('openai', 'f2', create)
+    cache.get('anthropic', 'f1', create)
+    expect(created).toBe(4)
+
+    cache.invalidate()
+    expect(cache.size).toBe(0)
+  })
+})
@@ -0,0 +1,79 @@
+import { createHash } from 'node:crypto'
+import { createLogger } from '../logger.js'
+import type { ProviderInstance } from './bundled.js'
+
+const log = createLogger('provider:instances')
+
+export interface InstanceCache {
+  /** The cached instance for this provider and fingerprint, creating it on a miss */
+  get(providerId: string, fingerprint: string, create: () => ProviderInstance): ProviderInstance
+  /** Drop the instances of one provider, or of every provider */
+  invalidate(providerId?: string): void
+  readonly size: number
+}
+
+const functionIds = new WeakMap<object, number>()
+const functionInputs = new WeakMap<object, string>()
+let nextFunctionId = 0
+
+/**
+ * Fingerprint a function by the inputs it was built from rather than by
+ * identity, so rebuilding it from the same inputs (the fetch wrappers of a
+ * provider, on every state rebuild) does not recreate the SDK instance.
+ */
+export function fingerprintFunction<T extends object>(fn: T, inputs: unknown): T {
+  functionInputs.set(fn, createHash('sha256').update(serialize(inputs)).digest('hex'))
+  return fn
+}
+
+/** Functions (custom fetch, ...) have no serializable form, so they are told apart by identity */
+function functionId(fn: object): string {
+  const inputs = functionInputs.get(fn)
+  if (inputs !== undefined) return `fn:${inputs}`
+  let id = functionIds.get(fn)
+  if (id === undefined) {
+    id = nextFunctionId++
+    functionIds.set(fn, id)
+  }
+  return `fn#${id}`
+}
+
+/**
+ * Hash of everything an SDK instance is built from. Keys are hashed rather than
+ * kept in the cache key, and functions count as equal only when identical.
+ */
+export function fingerprintOptions(bundledProvider: string, options: Record<string, unknown>): string {
+  return createHash('sha256').update(bundledProvider).update('\0').update(serialize(options)).digest('hex')
+}
+
+function serialize(value: unknown): string {
+  return JSON.stringify(value, (_key, item: unknown) => (typeof item === 'function' ? functionId(item) : item)) ?? ''
+}
+
+/**
+ * SDK instances per provider. Only the instance for the latest fingerprint is
+ * kept, so a provider whose options changed does not pin the old client.
+ */
+export function createInstanceCache(): InstanceCache {
+  const entries = new Map<string, { fingerprint: string; instance: ProviderInstance }>()
+
+  return {
+    get(providerId: string, fingerprint: string, create: () => ProviderInstance): ProviderInstance {
+      const cached = entries.get(providerId)
+      if (cached?.fingerprint === fingerprint) return cached.instance
+      log('%s: %s SDK instance', providerId, cached === undefined ? 'creating' : 'options changed, recreating')
+      const instance = create()
+      entries.set(providerId, { fingerprint, instance })
+      return instance
+    },
+
+    invalidate(providerId?: string): void {
+      if (providerId === undefined) entries.clear()
+      else entries.delete(providerId)
+    },
+
+    get size() {
+      return entries.size
+    },
+  }
+}
@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'bun:test'
+import { fetchModelListing, hasModelListing } from './live.js'
+
+function stubFetch(body: unknown, status = 200) {
+  const seen: Array<{ url: string; headers: Headers }> = []
+  const fetch = (async (url: string, init?: RequestInit) => {
+    seen.push({ url, headers: new Headers(init?.headers) })
+    return new Response(JSON.stringify(body), { status })
+  }) as unknown as typeof globalThis.fetch
+  return { fetch, seen }
+}
+
+const signal = new AbortController().signal
+
+describe('fetchModelListing', () => {
+  it('reads OpenAI-style listings and infers non-chat types', async () => {
+    const { fetch, seen } = stubFetch({
+      data: [
+        { id: 'ft:gpt-4.1-mini:acme::abc' },
+        { id: 'text-embedding-3-small' },
+        { id: 'llama-3.3-70b', context_window: 131072 },
+      ],
+    })
+    const models = await fetchModelListing({ bundledProvider: '@ai-sdk/groq', key: 'gsk-test', fetch, signal })
+    expect(seen[0]?.url).toBe('https://api.groq.com/openai/v1/models')
+    expect(seen[0]?.headers.get('authorization')).toBe('Bearer gsk-test')
+    expect(models).toEqual([
+      { modelId: 'ft:gpt-4.1-mini:acme::abc' },
+      { modelId: 'text-embedding-3-small', type: 'embedding' },
+      { modelId: 'llama-3.3-70b', limit: { context: 131072, output: 0 } },
+    ])
+  })
+
+  it('types the non-chat models of the OpenAI listing and drops those nothing can call', async () => {
+    const { fetch } = stubFetch({
+      data: [
+        { id: 'gpt-4o' },
+        { id: 'text-embedding-3-large' },
+        { id: 'tts-1-hd' },
+        { id: 'gpt-4o-mini-tts' },
+        { id: 'whisper-1' },
+        { id: 'gpt-4o-transcribe' },
+        { id: 'dall-e-3' },
+        { id: 'gpt-image-1' },
+        { id: 'omni-moderation-latest' },
+        { id: 'gpt-4o-realtime-preview' },
+        { id: 'davinci-002' },
+        { id: 'sora-2' },
+      ],
+    })
+    const models = await fetchModelListing({ bundledProvider: '@ai-sdk/openai', key: 'sk-test', fetch, signal })
+    expect(models).toEqual([
+      { modelId: 'gpt-4o' },
+      { modelId: 'text-embedding-3-large', type: 'embedding' },
+      { modelId: 'tts-1-hd', type: 'speech' },
+      { modelId: 'gpt-4o-mini-tts', type: 'speech' },
+      { modelId: 'whisper-1', type: 'transcription' },
+      { modelId: 'gpt-4o-transcribe', type: 'transcription' },
+      { modelId: 'dall-e-3', type: 'image' },
+      { modelId: 'gpt-image-1', type: 'image' },
+    ])
+  })
+
+  it('reads Copilot capabilities from a custom base URL', async () => {
+    const { fetch, seen } = stubFetch({
+      data: [
+        {
+          id: 'gpt-5',
+          name: 'GPT-5',
+          capabilities: {
+            limits: { max_context_window_tokens: 264000, max_output_tokens: 64000 },
+            supports: { tool_calls: true, vision: true },
+          },
+        },
+      ],
+    })
+    const models = await fetchModelListing({
+      bundledProvider: '@ai-sdk/openai-compatible',
+      baseURL: 'https://api.githubcopilot.com/',
+      key: '',
+      fetch,
+      signal,
+    })
+    expect(seen[0]?.url).toBe('https://api.githubcopilot.com/models')
+    expect(models[0]).toEqual({
+      modelId: 'gpt-5',
+      name: 'GPT-5',
+      tool_call: true,
+      modalities: { input: ['text', 'image'], output: ['text'] },
+      limit: { context: 264000, output: 64000 },
+    })
+  })
+
+  it('strips the models/ prefix from Google listings', async () => {
+    const { fetch, seen } = stubFetch({
+      models: [
+        { name: 'models/gemini-3-pro', displayName: 'Gemini 3 Pro', inputTokenLimit: 1048576, outputTokenLimit: 65536 },
+        { name: 'models/gemini-embedding-001', supportedGenerationMethods: ['embedContent'] },
+      ],
+    })
+    const models = await fetchModelListing({ bundledProvider: '@ai-sdk/google', key: 'AIza-test', fetch, signal })
+    expect(seen[0]?.url).toBe('https://generativelanguage.googleapis.com/v1beta/models?pageSize=1000')
+    expect(seen[0]?.headers.get('x-goog-api-key')).toBe('AIza-test')
+    expect(models).toEqual([
+      { modelId: 'gemini-3-pro', name: 'Gemini 3 Pro', limit: { context: 1048576, output: 65536 } },
+      { modelId: 'gemini-embedding-001', type: 'embedding' },
+    ])
+  })
+
+  it('converts OpenRouter per-token prices to per-million', async () => {
+    const { fetch } = stubFetch({
+      data: [
+        {
+          id: 'acme/model-x',
+          name: 'Model X',
+          context_length: 200000,
+          pricing: { prompt: '0.000003', completion: '0.000015' },
+          architecture: { input_modalities: ['text', 'image', 'file'], output_modalities: ['text'] },
+          supported_parameters: ['tools', 'reasoning'],
+        },
+      ],
+    })
+    const [model] = await fetchModelListing({ bundledProvider: '@openrouter/ai-sdk-provider', key: 'k', fetch, signal })
+    expect(model).toEqual({
+      modelId: 'acme/model-x',
+      name: 'Model X',
+      tool_call: true,
+      reasoning: true,
+      modalities: { input: ['text', 'image'], output: ['text'] },
+      cost: { input: 3, output: 15 },
+      limit: { context: 200000, output: 0 },
+    })
+  })
+
+  it('throws on HTTP errors so the previous listing is kept', async () => {
+    const { fetch } = stubFetch({ error: 'bad key' }, 401)
+    await expect(fetchModelListing({ bundledProvider: '@ai-sdk/anthropic', key: 'x', fetch, signal })).rejects.toThrow(
+      'HTTP 401'
+    )
+  })
+
+  it('only covers packages with a listing endpoint', () => {
+    expect(hasModelListing('@ai-sdk/anthropic')).toBe(true)
+    expect(hasModelListing('@ai-sdk/amazon-bedrock')).toBe(false)
+  })
+})
@@ -0,0 +1,207 @@
+import { createLogger } from '../logger.js'
+import type { ModelDefinition, ModelType } from '../types/model.js'
+import { getModelsEndpoint } from './validate.js'
+
+const log = createLogger('provider:live')
+
+export const DEFAULT_LIVE_SYNC_TIMEOUT_MS = 15_000
+
+/** What a provider's model listing says about one model. Unknown fields are left to the other tiers. */
+export type LiveModel = Partial<ModelDefinition> & { modelId: string }
+
+export interface LiveSyncOptions {
+  /** Only sync these provider ids (default: every provider with a credential and a listing endpoint) */
+  providers?: string[]
+  /** Abort each listing after this long (default 15s) */
+  timeoutMs?: number
+}
+
+export interface LiveSyncResult {
+  providerId: string
+  /** Number of models the provider listed, 0 when the sync failed */
+  models: number
+  error?: string
+}
+
+interface ModelListing {
+  path: string
+  parse(body: unknown): LiveModel[]
+}
+
+type Entry = Record<string, unknown>
+
+function entries(list: unknown): Entry[] {
+  if (!Array.isArray(list)) throw new Error('Unexpected model list format')
+  return list.filter((entry): entry is Entry => typeof entry === 'object' && entry !== null)
+}
+
+const num = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : undefined
+
+/** OpenAI-style listings only carry ids, so non-chat models are recognized by name */
+function inferType(modelId: string): ModelType | undefined {
+  if (/embed/i.test(modelId)) return 'embedding'
+  if (/rerank/i.test(modelId)) return 'reranking'
+  if (/whisper|transcri/i.test(modelId)) return 'transcription'
+  if (/tts/i.test(modelId)) return 'speech'
+  if (/dall-e|gpt-image|imagen/i.test(modelId)) return 'image'
+  return undefined
+}
+
+/** Listed models none of the model kinds can call: moderation, realtime sessions, legacy completions, video */
+const UNCALLABLE = /moderation|realtime|^(babbage|davinci)-\d|^sora/i
+
+function withType(model: LiveModel): LiveModel {
+  const type = model.type ?? inferType(model.modelId)
+  return type !== undefined ? { ...model, type } : model
+}
+
+function withLimit(model: LiveModel, context: number | undefined, output: number | undefined): LiveModel {
+  if (context === undefined && output === undefined) return model
+  return { ...model, limit: { context: context ?? 0, output: output ?? 0 } }
+}
+
+/**
+ * `{ data: [{ id }] }` as served by OpenAI, Groq, Mistral, xAI and compatible
+ * APIs (Together answers with the bare array). Context windows and capabilities
+ * are read from the fields Groq, Mistral and Copilot add.
+ */
+function parseOpenAIModels(body: unknown): LiveModel[] {
+  const list = Array.isArray(body) ? body : (body as { data?: unknown } | null)?.data
+  return entries(list).flatMap((entry) => {
+    if (typeof entry.id !== 'string' || entry.id === '' || UNCALLABLE.test(entry.id)) return []
+    const capabilities = (entry.capabilities ?? {}) as Entry
+    const limits = (capabilities.limits ?? {}) as Entry
+    const supports = (capabilities.supports ?? capabilities) as Entry
+    let model: LiveModel = { modelId: entry.id }
+    if (typeof entry.name === 'string') model.name = entry.name
+    if (typeof supports.function_calling === 'boolean') model.tool_call = supports.function_calling
+    else if (typeof supports.tool_calls === 'boolean') model.tool_call = supports.tool_calls
+    if (supports.vision === true) model.modalities = { input: ['text', 'image'], output: ['text'] }
+    model = withLimit(
+      model,
+      num(entry.context_window) ??
+        num(entry.max_context_length) ??
+        num(entry.context_length) ??
+        num(limits.max_context_window_tokens),
+      num(limits.max_output_tokens)
+    )
+    return [withType(model)]
+  })
+}
+
+/** `{ data: [{ id, display_name }] }` from Anthropic */
+function parseAnthropicModels(body: unknown): LiveModel[] {
+  return entries((body as { data?: unknown } | null)?.data).flatMap((entry) => {
+    if (typeof entry.id !== 'string' || entry.id === '') return []
+    return [{ modelId: entry.id, ...(typeof entry.display_name === 'string' ? { name: entry.display_name } : {}) }]
+  })
+}
+
+/** `{ models: [{ name: 'models/…', displayName, inputTokenLimit, ... }] }` from Google's models.list */
+function parseGoogleModels(body: unknown): LiveModel[] {
+  return entries((body as { models?: unknown } | null)?.models).flatMap((entry) => {
+    if (typeof entry.name !== 'string') return []
+    const methods = Array.isArray(entry.supportedGenerationMethods) ? entry.supportedGenerationMethods : []
+    let model: LiveModel = { modelId: entry.name.replace(/^models\//, '') }
+    if (typeof entry.displayName === 'string') model.name = entry.displayName
+    if (methods.includes('embedContent') && !methods.includes('generateContent')) model.type = 'embedding'
+    if (typeof entry.thinking === 'boolean') model.reasoning = entry.thinking
+    model = withLimit(model, num(entry.inputTokenLimit), num(entry.outputTokenLimit))
+    return [withType(model)]
+  })
+}
+
+const OPENROUTER_INPUTS = new Set(['text', 'image', 'audio', 'video', 'pdf'])
+const OPENROUTER_OUTPUTS = new Set(['text', 'image', 'audio'])
+
+/** OpenRouter prices are USD per token strings; the catalog stores USD per million tokens */
+function perMillion(value: unknown): number | undefined {
+  const perToken = typeof value === 'string' ? Number(value) : value
+  return typeof perToken === 'number' && Number.isFinite(perToken) && perToken >= 0
+    ? Math.round(perToken * 1e6 * 1e4) / 1e4
+    : undefined
+}
+
+function parseOpenRouterModels(body: unknown): LiveModel[] {
+  return entries((body as { data?: unknown } | null)?.data).flatMap((entry) => {
+    if (typeof entry.id !== 'string' || entry.id === '') return []
+    const architecture = (entry.architecture ?? {}) as Entry
+    const pricing = (entry.pricing ?? {}) as Entry
+    const provider = (entry.top_provider ?? {}) as Entry
+    const parameters = Array.isArray(entry.supported_parameters) ? entry.supported_parameters : []
+    let model: LiveModel = { modelId: entry.id, tool_call: parameters.includes('tools') }
+    if (typeof entry.name === 'string') model.name = entry.name
+    if (parameters.includes('reasoning')) model.reasoning = true
+    if (parameters.includes('structured_outputs')) model.structured_output = true
+    if (Array.isArray(architecture.input_modalities) && Array.isArray(architecture.output_modalities)) {
+      model.modalities = {
+        input: architecture.input_modalities.filter((m) => OPENROUTER_INPUTS.has(m)),
+        output: architecture.output_modalities.filter((m) => OPENROUTER_OUTPUTS.has(m)),
+      } as ModelDefinition['modalities']
+    }
+    const input = perMillion(pricing.prompt)
+    const output = perMillion(pricing.completion)
+    if (input !== undefined && output !== undefined) model.cost = { input, output }
+    model = withLimit(model, num(entry.context_length), num(provider.max_completion_tokens))
+    return [model]
+  })
+}
+
+const OPENAI_LISTING: ModelListing = { path: '/models', parse: parseOpenAIModels }
+
+/**
+ * Model listing per bundled package. Base URLs and auth headers come from the
+ * validation endpoints; packages missing here have no listing worth syncing.
+ */
+const MODEL_LISTINGS: Record<string, ModelListing> = {
+  '@ai-sdk/anthropic': { path: '/models?limit=1000', parse: parseAnthropicModels },
+  '@ai-sdk/openai': OPENAI_LISTING,
+  '@ai-sdk/google': { path: '/models?pageSize=1000', parse: parseGoogleModels },
+  '@ai-sdk/xai': OPENAI_LISTING,
+  '@ai-sdk/mistral': OPENAI_LISTING,
+  '@ai-sdk/groq': OPENAI_LISTING,
+  '@openrouter/ai-sdk-provider': { path: '/models', parse: parseOpenRouterModels },
+  '@ai-sdk/openai-compatible': OPENAI_LISTING,
+  '@ai-sdk/deepseek': OPENAI_LISTING,
+  '@ai-sdk/cerebras': OPENAI_LISTING,
+  '@ai-sdk/togetherai': OPENAI_LISTING,
+  '@ai-sdk/fireworks': OPENAI_LISTING,
+}
+
+export function hasModelListing(bundledProvider: string): boolean {
+  return MODEL_LISTINGS[bundledProvider] !== undefined && getModelsEndpoint(bundledProvider) !== undefined
+}
+
+export interface ModelListingRequest {
+  bundledProvider: string
+  baseURL?: string
+  key: string
+  headers?: Record<string, string>
+  /** The provider's SDK fetch, so plugin auth (e.g. Copilot) and retries apply */
+  fetch: typeof globalThis.fetch
+  signal: AbortSignal
+}
+
+/** GET the provider's model listing with the resolved credential and parse it. Throws on HTTP errors. */
+export async function fetchModelListing(request: ModelListingRequest): Promise<LiveModel[]> {
+  const listing = MODEL_LISTINGS[request.bundledProvider]
+  const endpoint = getModelsEndpoint(request.bundledProvider)
+  if (listing === undefined || endpoint === undefined) {
+    throw new Error(`No model listing for ${request.bundledProvider}`)
+  }
+  const baseURL = (request.baseURL ?? endpoint.defaultBaseURL).replace(/\/+$/, '')
+  if (baseURL === '') throw new Error('No base URL to list models from')
+  const url = `${baseURL}${listing.path}`
+  log('listing models at %s', url)
+  const response = await request.fetch(url, {
+    method: 'GET',
+    headers: { ...request.headers, ...endpoint.headers(request.key) },
+    signal: request.signal,
+  })
+  if (!response.ok) {
+    const body = await response.text().catch(() => '')
+    throw new Error(`Model listing failed with HTTP ${response.status}${body !== '' ? `: ${body.slice(0, 200)}` : ''}`)
+  }
+  return listing.parse(await response.json())
+}
@@ -0,0 +1,77 @@
+import { afterAll, describe, expect, it } from 'bun:test'
+import type { LocalServer } from './local.js'
+import { LOCAL_SERVERS, probeLocalServers, toLocalProviderConfig } from './local.js'
+
+const stub = Bun.serve({
+  port: 0,
+  fetch(req) {
+    const { pathname } = new URL(req.url)
+    if (pathname === '/ollama/api/tags') {
+      return Response.json({ models: [{ name: 'llama3.2:latest' }, { name: 'nomic-embed-text:latest' }] })
+    }
+    if (pathname === '/vllm/v1/models') {
+      return Response.json({ object: 'list', data: [{ id: 'Qwen/Qwen2.5-7B-Instruct', owned_by: 'vllm' }] })
+    }
+    if (pathname === '/other/v1/models') return new Response('<html>dev server</html>')
+    return new Response('not found', { status: 404 })
+  },
+})
+afterAll(() => stub.stop(true))
+
+/** Point a built-in server definition at the stub */
+function atStub(id: string, prefix: string): LocalServer {
+  const server = LOCAL_SERVERS.find((s) => s.id === id)
+  if (server === undefined) throw new Error(`unknown server ${id}`)
+  const origin = `http://localhost:${stub.port}/${prefix}`
+  return {
+    ...server,
+    baseURL: `${origin}/v1`,
+    modelsURL: id === 'ollama' ? `${origin}/api/tags` : `${origin}/v1/models`,
+  }
+}
+
+describe('probeLocalServers', () => {
+  it('lists the installed models of every server that answers', async () => {
+    const found = await probeLocalServers({
+      servers: [atStub('ollama', 'ollama'), atStub('vllm', 'vllm'), atStub('lmstudio', 'missing')],
+    })
+    expect(found).toEqual([
+      {
+        providerId: 'ollama',
+        name: 'Ollama',
+        baseURL: `http://localhost:${stub.port}/ollama/v1`,
+        models: [{ id: 'llama3.2:latest' }, { id: 'nomic-embed-text:latest' }],
+      },
+      {
+        providerId: 'vllm',
+        name: 'vLLM',
+        baseURL: `http://localhost:${stub.port}/vllm/v1`,
+        models: [{ id: 'Qwen/Qwen2.5-7B-Instruct' }],
+      },
+    ])
+  })
+
+  it('ignores unrelated servers on the same port and closed ports', async () => {
+    const closed = { ...atStub('llama-cpp', 'x'), modelsURL: 'http://127.0.0.1:1/v1/models' }
+    expect(await probeLocalServers({ servers: [atStub('llama-cpp', 'other'), closed], timeoutMs: 500 })).toEqual([])
+  })
+})
+
+describe('toLocalProviderConfig', () => {
+  it('registers keyless openai-compatible providers with free models', () => {
+    const config = toLocalProviderConfig([
+      {
+        providerId: 'ollama',
+        name: 'Ollama',
+        baseURL: 'http://localhost:11434/v1',
+        models: [{ id: 'nomic-embed-text' }],
+      },
+    ])
+    expect(config.providers?.ollama).toMatchObject({
+      bundledProvider: '@ai-sdk/openai-compatible',
+      baseURL: 'http://localhost:11434/v1',
+      local: true,
+      models: { 'nomic-embed-text': { type: 'embedding', cost: { input: 0, output: 0 } } },
+    })
+  })
+})
@@ -0,0 +1,141 @@
+import type { ExtendConfig, ExtendModelConfig } from '../catalog/catalog.js'
+import { createLogger } from '../logger.js'
+
+const log = createLogger('provider:local')
+
+const DEFAULT_PROBE_TIMEOUT_MS = 1000
+
+export interface LocalModel {
+  id: string
+}
+
+export interface LocalServer {
+  /** Catalog provider id the server is registered under */
+  id: string
+  name: string
+  /** Root of the server's OpenAI-compatible API */
+  baseURL: string
+  /** Endpoint listing the installed models */
+  modelsURL: string
+  parseModels(body: unknown): LocalModel[]
+}
+
+export interface LocalDiscoveryOptions {
+  /** Servers to probe, defaults to {@link LOCAL_SERVERS} */
+  servers?: LocalServer[]
+  /** Per-server probe timeout (default 1s) */
+  timeoutMs?: number
+  fetch?: typeof globalThis.fetch
+}
+
+export interface DiscoveredLocalServer {
+  providerId: string
+  name: string
+  baseURL: string
+  models: LocalModel[]
+}
+
+/** `{ data: [{ id }] }` as served by LM Studio, llama.cpp and vLLM */
+function parseOpenAIModelList(body: unknown): LocalModel[] {
+  const data = (body as { data?: unknown } | null)?.data
+  if (!Array.isArray(data)) throw new Error('Not an OpenAI-style model list')
+  return data.flatMap((entry) =>
+    typeof entry?.id === 'string' && entry.id.length > 0 ? [{ id: entry.id as string }] : []
+  )
+}
+
+/** `{ models: [{ name, model, ... }] }` from Ollama's /api/tags */
+function parseOllamaTags(body: unknown): LocalModel[] {
+  const models = (body as { models?: unknown } | null)?.models
+  if (!Array.isArray(models)) throw new Error('Not an Ollama tag list')
+  return models.flatMap((entry) => {
+    const id = entry?.name ?? entry?.model
+    return typeof id === 'string' && id.length > 0 ? [{ id }] : []
+  })
+}
+
+export const LOCAL_SERVERS: LocalServer[] = [
+  {
+    id: 'ollama',
+    name: 'Ollama',
+    baseURL: 'http://localhost:11434/v1',
+    modelsURL: 'http://localhost:11434/api/tags',
+    parseModels: parseOllamaTags,
+  },
+  {
+    id: 'lmstudio',
+    name: 'LM Studio',
+    baseURL: 'http://localhost:1234/v1',
+    modelsURL: 'http://localhost:1234/v1/models',
+    parseModels: parseOpenAIModelList,
+  },
+  {
+    id: 'llama-cpp',
+    name: 'llama.cpp',
+    baseURL: 'http://localhost:8080/v1',
+    modelsURL: 'http://localhost:8080/v1/models',
+    parseModels: parseOpenAIModelList,
+  },
+  {
+    id: 'vllm',
+    name: 'vLLM',
+    baseURL: 'http://localhost:8000/v1',
+    modelsURL: 'http://localhost:8000/v1/models',
+    parseModels: parseOpenAIModelList,
+  },
+]
+
+async function probeServer(
+  server: LocalServer,
+  fetch: typeof globalThis.fetch,
+  timeoutMs: number
+): Promise<DiscoveredLocalServer | undefined> {
+  try {
+    const response = await fetch(server.modelsURL, { signal: AbortSignal.timeout(timeoutMs) })
+    if (!response.ok) {
+      await response.body?.cancel().catch(() => {})
+      log('%s: %s answered %d', server.id, server.modelsURL, response.status)
+      return undefined
+    }
+    const models = server.parseModels(await response.json())
+    log('%s: found %d model(s) at %s', server.id, models.length, server.baseURL)
+    return { providerId: server.id, name: server.name, baseURL: server.baseURL, models }
+  } catch (error) {
+    log('%s: not reachable (%s)', server.id, error instanceof Error ? error.message : String(error))
+    return undefined
+  }
+}
+
+/** Probe every server in parallel. Servers that are down or answer with something else are left out. */
+export async function probeLocalServers(options: LocalDiscoveryOptions = {}): Promise<DiscoveredLocalServer[]> {
+  const fetch = options.fetch ?? globalThis.fetch
+  const timeoutMs = options.timeoutMs ?? DEFAULT_PROBE_TIMEOUT_MS
+  const results = await Promise.all(
+    (options.servers ?? LOCAL_SERVERS).map((server) => probeServer(server, fetch, timeoutMs))
+  )
+  return results.filter((r): r is DiscoveredLocalServer => r !== undefined)
+}
+
+/** Catalog entries for discovered servers, served through @ai-sdk/openai-compatible */
+export function toLocalProviderConfig(servers: DiscoveredLocalServer[]): ExtendConfig {
+  return {
+    providers: Object.fromEntries(
+      servers.map((server) => [
+        server.providerId,
+        {
+          name: server.name,
+          bundledProvider: '@ai-sdk/openai-compatible',
+          baseURL: server.baseURL,
+          options: { name: server.providerId },
+          local: true,
+          models: Object.fromEntries(
+            server.models.map((model): [string, ExtendModelConfig] => [
+              model.id,
+              { ...(/embed/i.test(model.id) ? { type: 'embedding' } : {}), cost: { input: 0, output: 0 } },
+            ])
+          ),
+        },
+      ])
+    ),
+  }
+}
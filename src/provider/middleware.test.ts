@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'bun:test'
+import type { LanguageModelV3, LanguageModelV3CallOptions, LanguageModelV3GenerateResult } from '@ai-sdk/provider'
+import type { LanguageModelMiddleware } from './middleware.js'
+import { wrapLanguageModel } from './middleware.js'
+
+function makeModel(calls: string[]): LanguageModelV3 {
+  return {
+    specificationVersion: 'v3',
+    provider: 'test',
+    modelId: 'model',
+    supportedUrls: {},
+    async doGenerate(params) {
+      calls.push(`model:${params.temperature ?? 'none'}`)
+      return { content: [] } as unknown as LanguageModelV3GenerateResult
+    },
+    async doStream(): Promise<never> {
+      throw new Error('not implemented')
+    },
+  }
+}
+
+function tracing(name: string, calls: string[]): LanguageModelMiddleware {
+  return {
+    specificationVersion: 'v3',
+    async wrapGenerate({ doGenerate }) {
+      calls.push(`${name}:before`)
+      const result = await doGenerate()
+      calls.push(`${name}:after`)
+      return result
+    },
+  }
+}
+
+const params = { prompt: [] } as LanguageModelV3CallOptions
+
+describe('wrapLanguageModel', () => {
+  it('runs the first middleware outermost', async () => {
+    const calls: string[] = []
+    const model = wrapLanguageModel(makeModel(calls), [tracing('outer', calls), tracing('inner', calls)])
+    await model.doGenerate(params)
+    expect(calls).toEqual(['outer:before', 'inner:before', 'model:none', 'inner:after', 'outer:after'])
+  })
+
+  it('passes transformed params down the chain', async () => {
+    const calls: string[] = []
+    const model = wrapLanguageModel(makeModel(calls), {
+      specificationVersion: 'v3',
+      transformParams: async ({ params }) => ({ ...params, temperature: 0 }),
+    })
+    await model.doGenerate(params)
+    expect(calls).toEqual(['model:0'])
+  })
+
+  it('applies provider and model id overrides', () => {
+    const model = wrapLanguageModel(makeModel([]), {
+      specificationVersion: 'v3',
+      overrideModelId: () => 'renamed',
+    })
+    expect(model.modelId).toBe('renamed')
+    expect(model.provider).toBe('test')
+  })
+})
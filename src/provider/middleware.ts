@@ -0,0 +1,49 @@
+import type { LanguageModelV3, LanguageModelV3CallOptions, LanguageModelV3Middleware } from '@ai-sdk/provider'
+
+export type LanguageModelMiddleware = LanguageModelV3Middleware
+
+function wrapWithMiddleware(model: LanguageModelV3, middleware: LanguageModelMiddleware): LanguageModelV3 {
+  async function transform(
+    type: 'generate' | 'stream',
+    params: LanguageModelV3CallOptions
+  ): Promise<LanguageModelV3CallOptions> {
+    return middleware.transformParams ? middleware.transformParams({ type, params, model }) : params
+  }
+
+  return {
+    specificationVersion: 'v3',
+    provider: middleware.overrideProvider?.({ model }) ?? model.provider,
+    modelId: middleware.overrideModelId?.({ model }) ?? model.modelId,
+    supportedUrls: middleware.overrideSupportedUrls?.({ model }) ?? model.supportedUrls,
+
+    async doGenerate(params) {
+      const transformed = await transform('generate', params)
+      const doGenerate = async () => model.doGenerate(transformed)
+      const doStream = async () => model.doStream(transformed)
+      return middleware.wrapGenerate
+        ? middleware.wrapGenerate({ doGenerate, doStream, params: transformed, model })
+        : doGenerate()
+    },
+
+    async doStream(params) {
+      const transformed = await transform('stream', params)
+      const doGenerate = async () => model.doGenerate(transformed)
+      const doStream = async () => model.doStream(transformed)
+      return middleware.wrapStream
+        ? middleware.wrapStream({ doGenerate, doStream, params: transformed, model })
+        : doStream()
+    },
+  }
+}
+
+/**
+ * Wrap a language model in middleware, following the AI SDK convention: the
+ * first middleware in the list is the outermost one and sees calls first.
+ */
+export function wrapLanguageModel(
+  model: LanguageModelV3,
+  middleware: LanguageModelMiddleware | LanguageModelMiddleware[]
+): LanguageModelV3 {
+  const list = Array.isArray(middleware) ? middleware : [middleware]
+  return list.reduceRight<LanguageModelV3>((wrapped, mw) => wrapWithMiddleware(wrapped, mw), model)
+}
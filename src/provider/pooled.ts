@@ -0,0 +1,98 @@
+import type { LanguageModelV3, LanguageModelV3CallOptions } from '@ai-sdk/provider'
+import type { KeyPool, PooledKey } from '../auth/pool.js'
+import { createLogger } from '../logger.js'
+import type { ProviderInstance } from './bundled.js'
+import { errorResponseHeaders, errorStatusCode, parseRetryAfter } from './http.js'
+import { retryDelayFromHeaders } from './retry.js'
+
+const log = createLogger('provider:pooled')
+
+/** Statuses that put a pooled key on cooldown and move the call to the next key */
+export const COOLDOWN_STATUS_CODES: ReadonlySet<number> = new Set([401, 403, 429])
+
+const NON_LANGUAGE_FACTORIES = [
+  'embeddingModel',
+  'textEmbeddingModel',
+  'imageModel',
+  'speechModel',
+  'transcriptionModel',
+  'speech',
+  'transcription',
+  'rerankingModel',
+] as const
+
+function reportKeyFailure(pool: KeyPool, key: PooledKey, error: unknown): boolean {
+  const status = errorStatusCode(error)
+  if (status === undefined || !COOLDOWN_STATUS_CODES.has(status)) return false
+  const headers = errorResponseHeaders(error)
+  // Rate limit reset headers come with every response but only explain a 429
+  const retryAfterMs =
+    status === 429
+      ? retryDelayFromHeaders(new Headers(headers))
+      : parseRetryAfter(new Headers(headers).get('retry-after'))
+  pool.reportFailure(key, status, retryAfterMs)
+  return true
+}
+
+function createPooledLanguageModel(
+  pool: KeyPool,
+  modelId: string,
+  create: (key: PooledKey) => ProviderInstance
+): LanguageModelV3 {
+  const probe = create(pool.peek()).languageModel(modelId)
+
+  async function run<T>(
+    callOptions: LanguageModelV3CallOptions,
+    call: (model: LanguageModelV3) => PromiseLike<T>
+  ): Promise<T> {
+    const tried = new Set<string>()
+    while (true) {
+      const key = pool.acquire(tried)
+      tried.add(key.key)
+      try {
+        return await call(create(key).languageModel(modelId))
+      } catch (error) {
+        const cooled = reportKeyFailure(pool, key, error)
+        if (!cooled || tried.size >= pool.size || callOptions.abortSignal?.aborted === true) throw error
+        log('retrying %s with another pooled key', modelId)
+      }
+    }
+  }
+
+  return {
+    specificationVersion: 'v3',
+    provider: probe.provider,
+    modelId: probe.modelId,
+    supportedUrls: probe.supportedUrls,
+    doGenerate(callOptions) {
+      return run(callOptions, (model) => model.doGenerate(callOptions))
+    },
+    doStream(callOptions) {
+      return run(callOptions, (model) => model.doStream(callOptions))
+    },
+  }
+}
+
+/**
+ * Build a ProviderInstance that draws an API key from `pool` for every model
+ * call. Language models pick a key per doGenerate/doStream and move on to the
+ * next key when one is rejected with 401/403/429; other model kinds pick a key
+ * when the model is created.
+ */
+export function createPooledProviderInstance(
+  pool: KeyPool,
+  create: (key: PooledKey) => ProviderInstance
+): ProviderInstance {
+  const base = create(pool.peek())
+  const instance: ProviderInstance = {
+    languageModel: (modelId) => createPooledLanguageModel(pool, modelId, create),
+  }
+  for (const name of NON_LANGUAGE_FACTORIES) {
+    if (typeof base[name] !== 'function') continue
+    ;(instance as unknown as Record<string, unknown>)[name] = (modelId: string) => {
+      const sdk = create(pool.acquire())
+      return (sdk[name] as (id: string) => unknown).call(sdk, modelId)
+    }
+  }
+  return instance
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'bun:test'
+import { createRateLimiter } from './ratelimit.js'
+
+describe('createRateLimiter', () => {
+  it('lets a burst of one minute of requests through, then queues', async () => {
+    // 600 RPM refills one request every 100ms
+    const limiter = createRateLimiter({ requestsPerMinute: 600 })
+    await Promise.all(Array.from({ length: 600 }, () => limiter.acquire()))
+
+    const started = Date.now()
+    const pending = limiter.acquire()
+    expect(limiter.queued).toBe(1)
+    await pending
+    expect(Date.now() - started).toBeGreaterThanOrEqual(50)
+    expect(limiter.queued).toBe(0)
+  })
+
+  it('holds requests while the token bucket is in debt', async () => {
+    // 60k TPM refills one token per millisecond
+    const limiter = createRateLimiter({ tokensPerMinute: 60_000 })
+    await limiter.acquire()
+    limiter.consumeTokens(60_040)
+
+    const started = Date.now()
+    await limiter.acquire()
+    expect(Date.now() - started).toBeGreaterThanOrEqual(20)
+  })
+
+  it('drops queued requests when their signal aborts', async () => {
+    const limiter = createRateLimiter({ requestsPerMinute: 1 })
+    await limiter.acquire()
+
+    const controller = new AbortController()
+    const pending = limiter.acquire(controller.signal)
+    controller.abort(new Error('cancelled'))
+    await expect(pending).rejects.toThrow('cancelled')
+    expect(limiter.queued).toBe(0)
+  })
+
+  it('matches only identical limits', () => {
+    const limiter = createRateLimiter({ requestsPerMinute: 50 })
+    expect(limiter.matches({ requestsPerMinute: 50 })).toBe(true)
+    expect(limiter.matches({ requestsPerMinute: 60 })).toBe(false)
+  })
+})
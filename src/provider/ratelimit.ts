@@ -0,0 +1,152 @@
+import type { LanguageModelV3StreamPart } from '@ai-sdk/provider'
+import { createLogger } from '../logger.js'
+import type { RateLimit } from '../types/provider.js'
+import type { LanguageModelMiddleware } from './middleware.js'
+import { normalizeUsage } from './usage.js'
+
+const log = createLogger('provider:ratelimit')
+
+const MINUTE_MS = 60_000
+
+export interface RateLimiter {
+  /** Resolves once a request may be sent. Rejects with the signal's reason when aborted while queued. */
+  acquire(signal?: AbortSignal): Promise<void>
+  /** Charge tokens actually used by a completed call against the TPM bucket */
+  consumeTokens(tokens: number): void
+  /** Number of requests waiting for capacity */
+  readonly queued: number
+  matches(limit: RateLimit): boolean
+}
+
+interface Bucket {
+  capacity: number
+  level: number
+  perMs: number
+}
+
+interface Waiter {
+  resolve: () => void
+  reject: (reason: unknown) => void
+  signal?: AbortSignal
+  onAbort?: () => void
+}
+
+function createBucket(perMinute: number): Bucket {
+  return { capacity: perMinute, level: perMinute, perMs: perMinute / MINUTE_MS }
+}
+
+/**
+ * Token buckets for requests and tokens per minute. Both start full, so a
+ * burst of up to one minute's allowance goes out immediately. Token usage is
+ * only known after a call, so it is charged afterwards and may push the TPM
+ * bucket into debt; queued requests wait until it is positive again.
+ */
+export function createRateLimiter(limit: RateLimit): RateLimiter {
+  const fingerprint = JSON.stringify(limit)
+  const requests = limit.requestsPerMinute !== undefined ? createBucket(limit.requestsPerMinute) : undefined
+  const tokens = limit.tokensPerMinute !== undefined ? createBucket(limit.tokensPerMinute) : undefined
+  const queue: Waiter[] = []
+  let lastRefill = Date.now()
+  let timer: ReturnType<typeof setTimeout> | undefined
+
+  function refill(): void {
+    const current = Date.now()
+    const elapsed = current - lastRefill
+    lastRefill = current
+    for (const bucket of [requests, tokens]) {
+      if (bucket !== undefined) bucket.level = Math.min(bucket.capacity, bucket.level + elapsed * bucket.perMs)
+    }
+  }
+
+  /** Milliseconds until the head of the queue may go, 0 when it can go now */
+  function waitTime(): number {
+    let wait = 0
+    if (requests !== undefined && requests.level < 1) wait = Math.max(wait, (1 - requests.level) / requests.perMs)
+    if (tokens !== undefined && tokens.level <= 0) wait = Math.max(wait, (1 - tokens.level) / tokens.perMs)
+    return Math.ceil(wait)
+  }
+
+  function drain(): void {
+    timer = undefined
+    refill()
+    while (queue.length > 0) {
+      const wait = waitTime()
+      if (wait > 0) {
+        log('%d queued, next slot in %dms', queue.length, wait)
+        timer = setTimeout(drain, wait)
+        return
+      }
+      if (requests !== undefined) requests.level -= 1
+      const waiter = queue.shift() as Waiter
+      if (waiter.onAbort !== undefined) waiter.signal?.removeEventListener('abort', waiter.onAbort)
+      waiter.resolve()
+    }
+  }
+
+  return {
+    acquire(signal?: AbortSignal): Promise<void> {
+      if (signal?.aborted === true) return Promise.reject(signal.reason)
+      return new Promise<void>((resolve, reject) => {
+        const waiter: Waiter = { resolve, reject, signal }
+        if (signal !== undefined) {
+          waiter.onAbort = () => {
+            const index = queue.indexOf(waiter)
+            if (index !== -1) queue.splice(index, 1)
+            if (queue.length === 0 && timer !== undefined) {
+              clearTimeout(timer)
+              timer = undefined
+            }
+            reject(signal.reason)
+          }
+          signal.addEventListener('abort', waiter.onAbort, { once: true })
+        }
+        queue.push(waiter)
+        if (timer === undefined) drain()
+      })
+    },
+
+    consumeTokens(count: number): void {
+      if (tokens === undefined || count <= 0) return
+      refill()
+      tokens.level -= count
+    },
+
+    get queued() {
+      return queue.length
+    },
+
+    matches(other: RateLimit): boolean {
+      return JSON.stringify(other) === fingerprint
+    },
+  }
+}
+
+/** Queues calls until the limiter has capacity and charges their token usage afterwards. */
+export function createRateLimitMiddleware(limiter: RateLimiter): LanguageModelMiddleware {
+  return {
+    specificationVersion: 'v3',
+
+    async wrapGenerate({ doGenerate, params }) {
+      await limiter.acquire(params.abortSignal)
+      const result = await doGenerate()
+      const used = normalizeUsage(result.usage)
+      limiter.consumeTokens(used.inputTokens + used.outputTokens)
+      return result
+    },
+
+    async wrapStream({ doStream, params }) {
+      await limiter.acquire(params.abortSignal)
+      const result = await doStream()
+      const meter = new TransformStream<LanguageModelV3StreamPart, LanguageModelV3StreamPart>({
+        transform(part, controller) {
+          if (part.type === 'finish') {
+            const used = normalizeUsage(part.usage)
+            limiter.consumeTokens(used.inputTokens + used.outputTokens)
+          }
+          controller.enqueue(part)
+        },
+      })
+      return { ...result, stream: result.stream.pipeThrough(meter) }
+    },
+  }
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'bun:test'
+import { createRetryFetch, retryDelayFromHeaders } from './retry.js'
+
+function sequence(...steps: Array<Response | Error>): { fetch: typeof globalThis.fetch; calls: () => number } {
+  let calls = 0
+  const fetch = (async () => {
+    const step = steps[Math.min(calls, steps.length - 1)]
+    calls++
+    if (step instanceof Error) throw step
+    return step
+  }) as unknown as typeof globalThis.fetch
+  return { fetch, calls: () => calls }
+}
+
+const fast = { initialDelayMs: 1, maxDelayMs: 1 }
+
+describe('retryDelayFromHeaders', () => {
+  it('prefers Retry-After', () => {
+    expect(retryDelayFromHeaders(new Headers({ 'retry-after': '3', 'x-ratelimit-reset-requests': '1s' }))).toBe(3000)
+  })
+
+  it('prefers retry-after-ms over the coarser Retry-After', () => {
+    expect(retryDelayFromHeaders(new Headers({ 'retry-after': '2', 'retry-after-ms': '1500' }))).toBe(1500)
+  })
+
+  it('reads OpenAI-style durations and Anthropic timestamps', () => {
+    expect(retryDelayFromHeaders(new Headers({ 'x-ratelimit-reset-tokens': '6m0.5s' }))).toBe(360_500)
+    expect(retryDelayFromHeaders(new Headers({ 'x-ratelimit-reset-requests': '20ms' }))).toBe(20)
+    const now = Date.UTC(2026, 0, 1)
+    const reset = new Date(now + 5000).toISOString()
+    expect(retryDelayFromHeaders(new Headers({ 'anthropic-ratelimit-requests-reset': reset }), now)).toBe(5000)
+  })
+
+  it('returns undefined without hints', () => {
+    expect(retryDelayFromHeaders(new Headers())).toBeUndefined()
+  })
+})
+
+describe('createRetryFetch', () => {
+  it('retries 429 and 5xx until success', async () => {
+    const { fetch, calls } = sequence(
+      new Response('', { status: 429, headers: { 'retry-after-ms': '1' } }),
+      new Response('', { status: 503 }),
+      new Response('ok')
+    )
+    const response = await createRetryFetch(fetch, fast)('https://example.com')
+    expect(response.status).toBe(200)
+    expect(calls()).toBe(3)
+  })
+
+  it('returns the last response once retries are exhausted', async () => {
+    const { fetch, calls } = sequence(new Response('', { status: 500 }))
+    const response = await createRetryFetch(fetch, { ...fast, maxRetries: 1 })('https://example.com')
+    expect(response.status).toBe(500)
+    expect(calls()).toBe(2)
+  })
+
+  it('does not retry client errors', async () => {
+    const { fetch, calls } = sequence(new Response('', { status: 400 }))
+    const response = await createRetryFetch(fetch, fast)('https://example.com')
+    expect(response.status).toBe(400)
+    expect(calls()).toBe(1)
+  })
+
+  it('returns pass-through statuses without retrying', async () => {
+    const { fetch, calls } = sequence(new Response('', { status: 429, headers: { 'retry-after-ms': '1' } }))
+    const response = await createRetryFetch(fetch, { ...fast, passThroughStatuses: new Set([429]) })('https://x.test')
+    expect(response.status).toBe(429)
+    expect(calls()).toBe(1)
+  })
+
+  it('gives up when the server asks to wait too long', async () => {
+    const { fetch, calls } = sequence(new Response('', { status: 429, headers: { 'retry-after': '120' } }))
+    const response = await createRetryFetch(fetch, fast)('https://example.com')
+    expect(response.status).toBe(429)
+    expect(calls()).toBe(1)
+  })
+
+  it('retries network errors but rethrows others', async () => {
+    const network = sequence(new TypeError('fetch failed'), new Response('ok'))
+    expect((await createRetryFetch(network.fetch, fast)('https://example.com')).status).toBe(200)
+    expect(network.calls()).toBe(2)
+
+    const other = sequence(new Error('boom'))
+    await expect(createRetryFetch(other.fetch, fast)('https://example.com')).rejects.toThrow('boom')
+    expect(other.calls()).toBe(1)
+  })
+})
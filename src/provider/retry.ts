@@ -0,0 +1,151 @@
+import { createLogger } from '../logger.js'
+import type { RetryOptions } from '../types/provider.js'
+import { isNetworkError, parseRetryAfter } from './http.js'
+
+const log = createLogger('provider:retry')
+
+type FetchFunction = typeof globalThis.fetch
+
+const DEFAULT_MAX_RETRIES = 2
+const DEFAULT_INITIAL_DELAY_MS = 500
+const DEFAULT_MAX_DELAY_MS = 30_000
+const DEFAULT_MAX_RETRY_AFTER_MS = 60_000
+
+const RETRYABLE_STATUS_CODES: ReadonlySet<number> = new Set([408, 409, 429])
+
+/** Headers that carry a wait hint, most specific first */
+const RESET_HEADERS = [
+  'retry-after-ms',
+  'retry-after',
+  'anthropic-ratelimit-requests-reset',
+  'anthropic-ratelimit-tokens-reset',
+  'anthropic-ratelimit-input-tokens-reset',
+  'anthropic-ratelimit-output-tokens-reset',
+  'x-ratelimit-reset-requests',
+  'x-ratelimit-reset-tokens',
+  'x-ratelimit-reset',
+] as const
+
+/** Parse a duration such as "1s", "6m0s", "20ms" or "1h2m3.5s" into milliseconds */
+function parseDuration(value: string): number | undefined {
+  const parts = [...value.matchAll(/(\d+(?:\.\d+)?)(ms|h|m|s)/g)]
+  if (parts.length === 0 || parts.map((p) => p[0]).join('') !== value) return undefined
+  const unitMs: Record<string, number> = { h: 3_600_000, m: 60_000, s: 1000, ms: 1 }
+  return parts.reduce((total, [, amount, unit]) => total + Number(amount) * (unitMs[unit as string] ?? 0), 0)
+}
+
+/**
+ * The server-suggested wait before retrying, from Retry-After or the vendor
+ * rate limit reset headers (RFC 3339 timestamps from Anthropic, durations from
+ * OpenAI-style APIs). Returns undefined when the response carries no hint.
+ */
+export function retryDelayFromHeaders(headers: Headers, now = Date.now()): number | undefined {
+  for (const name of RESET_HEADERS) {
+    const value = headers.get(name)?.trim()
+    if (value === undefined || value.length === 0) continue
+    if (name === 'retry-after-ms') {
+      const ms = Number(value)
+      if (Number.isFinite(ms)) return Math.max(0, ms)
+      continue
+    }
+    if (name === 'retry-after') {
+      const retryAfter = parseRetryAfter(value, now)
+      if (retryAfter !== undefined) return retryAfter
+      continue
+    }
+    const duration = parseDuration(value)
+    if (duration !== undefined) return duration
+    const seconds = Number(value)
+    if (Number.isFinite(seconds)) {
+      // x-ratelimit-reset is epoch seconds on some APIs and delta-seconds on others
+      return seconds > 1e9 ? Math.max(0, seconds * 1000 - now) : seconds * 1000
+    }
+    const date = Date.parse(value)
+    if (!Number.isNaN(date)) return Math.max(0, date - now)
+  }
+  return undefined
+}
+
+export interface RetryFetchOptions extends RetryOptions {
+  /** Retryable statuses to return right away, e.g. those a credential pool handles by switching keys */
+  passThroughStatuses?: ReadonlySet<number>
+}
+
+export function isRetryableStatus(status: number): boolean {
+  return RETRYABLE_STATUS_CODES.has(status) || status >= 500
+}
+
+function sleep(ms: number, signal: AbortSignal | null | undefined): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted === true) {
+      reject(signal.reason)
+      return
+    }
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal?.reason)
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+/**
+ * Wrap a fetch function with retries for 408/409/429, 5xx and network errors.
+ * Waits follow server hints (Retry-After and rate limit reset headers) when
+ * present, and full-jitter exponential backoff otherwise. Responses asking for
+ * a longer wait than `maxRetryAfterMs` are returned as-is.
+ */
+export function createRetryFetch(baseFetch: FetchFunction, options: RetryFetchOptions = {}): FetchFunction {
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES
+  const initialDelayMs = options.initialDelayMs ?? DEFAULT_INITIAL_DELAY_MS
+  const maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS
+  const maxRetryAfterMs = options.maxRetryAfterMs ?? DEFAULT_MAX_RETRY_AFTER_MS
+
+  function backoff(attempt: number): number {
+    return Math.random() * Math.min(maxDelayMs, initialDelayMs * 2 ** attempt)
+  }
+
+  const retryFetch = async (input: Parameters<FetchFunction>[0], init?: Parameters<FetchFunction>[1]) => {
+    const signal = init?.signal ?? (input instanceof Request ? input.signal : undefined)
+    // Streamed request bodies can only be sent once
+    const replayable = !(init?.body instanceof ReadableStream)
+    const attempts = replayable ? maxRetries + 1 : 1
+
+    for (let attempt = 0; ; attempt++) {
+      const last = attempt + 1 >= attempts
+      let response: Response
+      try {
+        response = await baseFetch(input instanceof Request && !last ? (input.clone() as typeof input) : input, init)
+      } catch (error) {
+        if (last || signal?.aborted === true || !isNetworkError(error)) throw error
+        const delay = backoff(attempt)
+        log('network error, retry %d/%d in %dms', attempt + 1, maxRetries, Math.round(delay))
+        await sleep(delay, signal)
+        continue
+      }
+
+      if (last || !isRetryableStatus(response.status) || options.passThroughStatuses?.has(response.status)) {
+        return response
+      }
+
+      // Rate limit reset headers come with every response but only explain a 429
+      const hinted =
+        response.status === 429
+          ? retryDelayFromHeaders(response.headers)
+          : parseRetryAfter(response.headers.get('retry-after'))
+      if (hinted !== undefined && hinted > maxRetryAfterMs) {
+        log('HTTP %d asks to wait %dms, beyond the %dms limit; not retrying', response.status, hinted, maxRetryAfterMs)
+        return response
+      }
+      const delay = hinted ?? backoff(attempt)
+      log('HTTP %d, retry %d/%d in %dms', response.status, attempt + 1, maxRetries, Math.round(delay))
+      await response.body?.cancel().catch(() => {})
+      await sleep(delay, signal)
+    }
+  }
+  return retryFetch as FetchFunction
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'bun:test'
+import type { ModelDefinition } from '../types/model.js'
+import { matchesCriteria, rankModels } from './select.js'
+
+function model(modelId: string, overrides: Partial<ModelDefinition> = {}): ModelDefinition {
+  return {
+    modelId,
+    tool_call: true,
+    modalities: { input: ['text'], output: ['text'] },
+    limit: { context: 128_000, output: 8192 },
+    cost: { input: 1, output: 4 },
+    ...overrides,
+  }
+}
+
+describe('matchesCriteria', () => {
+  it('filters on capabilities, context and input price', () => {
+    const vision = model('vision', { modalities: { input: ['text', 'image'], output: ['text'] } })
+    expect(matchesCriteria(vision, { vision: true, toolCall: true })).toBe(true)
+    expect(matchesCriteria(model('text'), { vision: true })).toBe(false)
+    expect(matchesCriteria(model('small', { limit: { context: 8000, output: 1000 } }), { minContext: 32_000 })).toBe(
+      false
+    )
+    expect(matchesCriteria(model('pricey', { cost: { input: 15, output: 75 } }), { maxInputCost: 5 })).toBe(false)
+    expect(matchesCriteria(model('unpriced', { cost: undefined }), { maxInputCost: 5 })).toBe(false)
+    expect(matchesCriteria(model('plain', { reasoning: false }), { reasoning: true })).toBe(false)
+  })
+
+  it('skips deprecated and non-chat models', () => {
+    expect(matchesCriteria(model('old', { status: 'deprecated' }), {})).toBe(false)
+    expect(matchesCriteria(model('old', { status: 'deprecated' }), { includeDeprecated: true })).toBe(true)
+    expect(matchesCriteria(model('embed', { type: 'embedding' }), {})).toBe(false)
+  })
+})
+
+describe('rankModels', () => {
+  const candidates = [
+    { providerId: 'anthropic', definition: model('mid', { cost: { input: 3, output: 15 } }) },
+    {
+      providerId: 'openai',
+      definition: model('unpriced', { cost: undefined, limit: { context: 2_000_000, output: 1 } }),
+    },
+    { providerId: 'google', definition: model('cheap', { cost: { input: 0.1, output: 0.4 } }) },
+    {
+      providerId: 'openai',
+      definition: model('wide', { cost: { input: 3, output: 15 }, limit: { context: 1e6, output: 1 } }),
+    },
+  ]
+
+  it('ranks cheapest first, breaking ties on context and putting unpriced models last', () => {
+    expect(rankModels(candidates, {}).map((c) => c.definition.modelId)).toEqual(['cheap', 'wide', 'mid', 'unpriced'])
+  })
+
+  it('ranks by context window and restricts providers', () => {
+    expect(rankModels(candidates, { sortBy: 'context' })[0]?.definition.modelId).toBe('unpriced')
+    expect(rankModels(candidates, { providers: ['anthropic'] }).map((c) => c.definition.modelId)).toEqual(['mid'])
+  })
+})
@@ -0,0 +1,70 @@
+import type { LanguageModelV3 } from '@ai-sdk/provider'
+import type { ModelDefinition } from '../types/model.js'
+
+export interface ModelCriteria {
+  toolCall?: boolean
+  reasoning?: boolean
+  structuredOutput?: boolean
+  /** Accepts image input */
+  vision?: boolean
+  /** Minimum context window in tokens */
+  minContext?: number
+  /** Maximum input price in USD per million tokens. Unpriced models are excluded when set. */
+  maxInputCost?: number
+  /** Only consider these provider ids */
+  providers?: string[]
+  includeDeprecated?: boolean
+  /** 'cost' ranks cheapest input first (default), 'context' ranks largest context window first */
+  sortBy?: 'cost' | 'context'
+  /** Return at most this many models */
+  limit?: number
+}
+
+export interface ModelCandidate {
+  providerId: string
+  definition: ModelDefinition
+}
+
+export interface SelectedModel extends ModelCandidate {
+  modelId: string
+  model: LanguageModelV3
+}
+
+/** Whether a catalog model satisfies the criteria. Only chat models are ever selected. */
+export function matchesCriteria(definition: ModelDefinition, criteria: ModelCriteria): boolean {
+  if ((definition.type ?? 'chat') !== 'chat') return false
+  if (criteria.includeDeprecated !== true && definition.status === 'deprecated') return false
+  if (criteria.toolCall === true && definition.tool_call !== true) return false
+  if (criteria.reasoning === true && definition.reasoning !== true) return false
+  if (criteria.structuredOutput === true && definition.structured_output !== true) return false
+  if (criteria.vision === true && !definition.modalities.input.includes('image')) return false
+  if (criteria.minContext !== undefined && definition.limit.context < criteria.minContext) return false
+  if (criteria.maxInputCost !== undefined) {
+    if (definition.cost === undefined || definition.cost.input > criteria.maxInputCost) return false
+  }
+  return true
+}
+
+const inputCost = (d: ModelDefinition) => d.cost?.input ?? Number.POSITIVE_INFINITY
+const outputCost = (d: ModelDefinition) => d.cost?.output ?? Number.POSITIVE_INFINITY
+
+function compareCost(a: ModelDefinition, b: ModelDefinition): number {
+  return inputCost(a) - inputCost(b) || outputCost(a) - outputCost(b)
+}
+
+/**
+ * Filter and rank candidates. Cost ties are broken by output price and then by
+ * the larger context window; unpriced models rank last.
+ */
+export function rankModels(candidates: ModelCandidate[], criteria: ModelCriteria): ModelCandidate[] {
+  const providers = criteria.providers === undefined ? undefined : new Set(criteria.providers)
+  const matching = candidates.filter(
+    (c) => (providers === undefined || providers.has(c.providerId)) && matchesCriteria(c.definition, criteria)
+  )
+  const byContext = (a: ModelCandidate, b: ModelCandidate) => b.definition.limit.context - a.definition.limit.context
+  return matching.sort((a, b) =>
+    criteria.sortBy === 'context'
+      ? byContext(a, b) || compareCost(a.definition, b.definition)
+      : compareCost(a.definition, b.definition) || byContext(a, b)
+  )
+}
@@ -1,18 +1,30 @@
 import type { AuthStore } from '../auth/store.js'
-import type { Catalog } from '../catalog/catalog.js'
+import { parseAccountId } from '../catalog/alias.js'
+import type { Catalog, CatalogProvider } from '../catalog/catalog.js'
 import { createLogger } from '../logger.js'
 import { loadPluginOptions } from '../plugin/index.js'
 import type { SecretRef } from '../types/auth.js'
+import type { AuthCredential, CredentialPool } from '../types/plugin.js'
 import type { ProviderUserConfig } from '../types/provider.js'
+import { createClassifyingFetch } from './classify.js'
+import { fingerprintFunction } from './instances.js'
+import { COOLDOWN_STATUS_CODES } from './pooled.js'
+import { createRetryFetch } from './retry.js'
+import { createTimeoutFetch } from './timeout.js'
 
 const log = createLogger('provider:state')
 
 export interface ProviderState {
+  /** Provider id, or "provider:account" for a named account */
   id: string
   key?: string
   options: Record<string, unknown>
-  source: 'env' | 'disk' | 'auth' | 'plugin' | 'config' | 'none'
+  source: 'env' | 'disk' | 'auth' | 'plugin' | 'config' | 'local' | 'none'
   location?: string
+  /** Set when the auth store credential carries a key pool that applies to this provider */
+  pool?: CredentialPool
+  /** The plugin's or user's fetch inside the store's timeout, retry and classifying wrappers */
+  baseFetch?: typeof globalThis.fetch
 }
 
 async function resolveSecretRef(ref: SecretRef): Promise<string | undefined> {
@@ -50,8 +62,13 @@ export async function buildProviderState(config: {
   catalog: Catalog
   authStore: AuthStore
   userConfig?: Record<string, ProviderUserConfig>
+  /** Persists a credential a plugin refreshed, e.g. an OAuth token. Defaults to `authStore.set()`. */
+  saveCredential?: (providerId: string, credential: AuthCredential) => Promise<void>
+  /** Build the state of this provider or named account only */
+  only?: string
 }): Promise<Record<string, ProviderState>> {
-  const { catalog, authStore, userConfig } = config
+  const { catalog, authStore, userConfig, only } = config
+  const saveCredential = config.saveCredential ?? ((providerId, credential) => authStore.set(providerId, credential))
 
   log('building provider state')
 
@@ -61,19 +78,34 @@ export async function buildProviderState(config: {
   log('found %d catalog providers, %d auth entries', allProviders.length, Object.keys(authCredentials).length)
 
   const result: Record<string, ProviderState> = {}
+  const entries: Array<{ pid: string; catalogProvider: CatalogProvider; account?: string }> = allProviders.map(
+    (catalogProvider) => ({ pid: catalogProvider.id, catalogProvider })
+  )
+  // Named accounts ("openai:work") share their provider's catalog entry but have their own credential and config
+  const accountIds = new Set([...Object.keys(authCredentials), ...Object.keys(userConfig ?? {})])
+  for (const pid of accountIds) {
+    const { providerId, account } = parseAccountId(pid)
+    const catalogProvider = account !== undefined ? catalog.getProvider(providerId) : undefined
+    if (catalogProvider !== undefined) entries.push({ pid, catalogProvider, account })
+  }
 
-  for (const catalogProvider of allProviders) {
-    const pid = catalogProvider.id
+  for (const { pid, catalogProvider, account } of entries) {
+    if (only !== undefined && pid !== only) continue
+    const baseId = catalogProvider.id
     const options: Record<string, unknown> = {}
     let key: string | undefined
     let source: ProviderState['source'] = 'none'
     let location: string | undefined
+    let pool: CredentialPool | undefined
+    // What the innermost fetch is, for fingerprinting the composed one
+    let fetchOrigin: unknown = 'global'
     if (catalogProvider.baseURL !== undefined) {
-      options.baseURL = normalizeProviderBaseURL(pid, catalogProvider.baseURL)
+      options.baseURL = normalizeProviderBaseURL(baseId, catalogProvider.baseURL)
     }
     if (catalogProvider.headers !== undefined) options.headers = { ...catalogProvider.headers }
     if (catalogProvider.options !== undefined) Object.assign(options, catalogProvider.options)
-    if (catalogProvider.env !== undefined) {
+    // Environment variables belong to the provider's default account
+    if (catalogProvider.env !== undefined && account === undefined) {
       for (const envVar of catalogProvider.env) {
         const val = process.env[envVar]
         if (val !== undefined) {
@@ -87,7 +119,14 @@ export async function buildProviderState(config: {
     const authCred = authCredentials[pid]
     const authBaseURL = resolveAuthBaseURL(authCred as Record<string, unknown> | undefined)
     if (authBaseURL !== undefined) {
-      options.baseURL = normalizeProviderBaseURL(pid, authBaseURL)
+      options.baseURL = normalizeProviderBaseURL(baseId, authBaseURL)
+    }
+    const poolKeys = authCred?.pool?.keys
+    if (authCred?.pool !== undefined && poolKeys !== undefined && poolKeys.length > 0) {
+      pool = authCred.pool
+      key = authCred.key ?? poolKeys[0]?.key
+      source = 'auth'
+      location = authCred.location
     }
     if (authCred?.key !== undefined) {
       key = authCred.key
@@ -103,6 +142,7 @@ export async function buildProviderState(config: {
             h.set('Authorization', `Bearer ${token}`)
             return globalThis.fetch(url, { ...init, headers: h })
           }
+          fetchOrigin = 'google-oauth'
         }
       }
     }
@@ -111,19 +151,21 @@ export async function buildProviderState(config: {
       const preferred = await authStore.getPreferred?.(pid, 'oauth')
       return preferred ?? authCred ?? { type: 'api' as const }
     }
-    const setAuth = async (credential: Parameters<AuthStore['set']>[1]) => {
-      await authStore.set(pid, credential)
-    }
-    const pluginOpts = await loadPluginOptions(pid, getAuth, { id: pid, name: catalogProvider.name }, setAuth)
+    const setAuth = (credential: AuthCredential) => saveCredential(pid, credential)
+    const pluginOpts = await loadPluginOptions(baseId, getAuth, { id: pid, name: catalogProvider.name }, setAuth)
+    let pluginAuth: AuthCredential | undefined
     if (pluginOpts !== undefined) {
       Object.assign(options, pluginOpts)
+      if (typeof pluginOpts.fetch === 'function') fetchOrigin = 'plugin'
       const pluginKey = pluginOpts.apiKey
       if (typeof pluginKey === 'string') {
         key = pluginKey
         source = 'plugin'
+        pool = undefined
       }
       // Resolve actual auth credential to track correct location
       const resolvedAuth = await getAuth()
+      pluginAuth = resolvedAuth
       if (resolvedAuth.location) {
         location = resolvedAuth.location
       }
@@ -131,7 +173,7 @@ export async function buildProviderState(config: {
 
     const userCfg = userConfig?.[pid]
     if (userCfg !== undefined) {
-      if (userCfg.baseURL !== undefined) options.baseURL = normalizeProviderBaseURL(pid, userCfg.baseURL)
+      if (userCfg.baseURL !== undefined) options.baseURL = normalizeProviderBaseURL(baseId, userCfg.baseURL)
       if (userCfg.headers !== undefined) {
         const existingHeaders = options.headers
         options.headers = {
@@ -142,20 +184,73 @@ export async function buildProviderState(config: {
         }
       }
       if (userCfg.options !== undefined) Object.assign(options, userCfg.options)
+      if (typeof userCfg.options?.fetch === 'function') fetchOrigin = userCfg.options.fetch
       if (userCfg.apiKey !== undefined) {
         const resolved = await resolveSecretRef(userCfg.apiKey)
         if (resolved !== undefined) {
           key = resolved
           source = 'config'
+          pool = undefined
           log('%s: resolved key from user config', pid)
         }
       }
     }
 
+    const baseFetch = typeof options.fetch === 'function' ? (options.fetch as typeof globalThis.fetch) : undefined
+    // Retries wrap plugin fetches so every attempt goes through their auth handling
+    let fetch =
+      baseFetch ??
+      (((input: Parameters<typeof globalThis.fetch>[0], init?: Parameters<typeof globalThis.fetch>[1]) =>
+        globalThis.fetch(input, init)) as typeof globalThis.fetch)
+    // Inside the retries, so every attempt gets its own timeouts and a request whose headers time out is retried
+    const timeout = userCfg?.timeout ?? catalogProvider.timeout
+    const { totalMs, ...attemptTimeout } = timeout !== undefined && timeout !== false ? timeout : {}
+    if (Object.values(attemptTimeout).some((ms) => ms !== undefined)) {
+      fetch = createTimeoutFetch(fetch, { ...attemptTimeout, providerId: pid })
+    }
+    const retry = userCfg?.retry ?? catalogProvider.retry
+    if (retry !== false) {
+      // A pool cools a rejected key down and moves on to the next one, so retrying the same key only delays that
+      fetch = createRetryFetch(
+        fetch,
+        pool !== undefined ? { ...retry, passThroughStatuses: COOLDOWN_STATUS_CODES } : retry
+      )
+    }
+    // Outside the retries, so the deadline covers every attempt and the waits between them
+    if (totalMs !== undefined) fetch = createTimeoutFetch(fetch, { totalMs, providerId: pid })
+    // Outside the retries, so only the response that is finally given up on becomes a typed error
+    const oauth = authCred?.type === 'oauth' && (source === 'auth' || source === 'plugin')
+    // Rebuilt with every state rebuild, so fingerprinted by what it wraps to keep the SDK instance cached
+    options.fetch = fingerprintFunction(
+      createClassifyingFetch(fetch, { providerId: pid, oauth, retried: retry !== false }),
+      {
+        pid,
+        fetchOrigin,
+        credential: pluginAuth ?? authCred,
+        timeout,
+        retry,
+        pooled: pool !== undefined,
+        oauth,
+      }
+    )
+
+    if (source === 'none' && catalogProvider.local === true) {
+      source = 'local'
+      location = typeof options.baseURL === 'string' ? options.baseURL : undefined
+    }
+
     if (source !== 'none') {
       log('%s: source=%s, location=%s', pid, source, location ?? 'n/a')
     }
-    result[pid] = { id: pid, key, options, source, location }
+    result[pid] = {
+      id: pid,
+      key,
+      options,
+      source,
+      location,
+      ...(pool !== undefined ? { pool } : {}),
+      ...(baseFetch !== undefined ? { baseFetch } : {}),
+    }
   }
 
   log('provider state built for %d providers', Object.keys(result).length)
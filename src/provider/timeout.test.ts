@@ -0,0 +1,155 @@
+import { describe, expect, it } from 'bun:test'
+import type { LanguageModelV3, LanguageModelV3StreamPart } from '@ai-sdk/provider'
+import { RequestTimeoutError } from '../types/errors.js'
+import { wrapLanguageModel } from './middleware.js'
+import { createRetryFetch } from './retry.js'
+import { createStreamErrorMiddleware, createTimeoutFetch } from './timeout.js'
+
+const encoder = new TextEncoder()
+
+/** A fetch that answers after `headersAfterMs`, then sends `chunks` with the given delays before each */
+function slowFetch(
+  headersAfterMs: number,
+  chunks: Array<[delayMs: number, text: string]> = []
+): { fetch: typeof globalThis.fetch; signals: AbortSignal[] } {
+  const signals: AbortSignal[] = []
+  const fetch = ((_input: unknown, init?: RequestInit) => {
+    const signal = init?.signal as AbortSignal
+    signals.push(signal)
+    return new Promise<Response>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        let index = 0
+        const body = new ReadableStream<Uint8Array>({
+          async pull(controller) {
+            const next = chunks[index++]
+            if (next === undefined) {
+              controller.close()
+              return
+            }
+            await new Promise((r) => setTimeout(r, next[0]))
+            controller.enqueue(encoder.encode(next[1]))
+          },
+        })
+        resolve(new Response(body))
+      }, headersAfterMs)
+      signal.addEventListener('abort', () => {
+        clearTimeout(timer)
+        reject(signal.reason)
+      })
+    })
+  }) as unknown as typeof globalThis.fetch
+  return { fetch, signals }
+}
+
+describe('createTimeoutFetch', () => {
+  it('passes responses through within the limits', async () => {
+    const { fetch } = slowFetch(1, [
+      [1, 'a'],
+      [1, 'b'],
+    ])
+    const timed = createTimeoutFetch(fetch, { providerId: 'p', headersMs: 200, idleMs: 200, totalMs: 500 })
+    expect(await (await timed('https://example.test')).text()).toBe('ab')
+  })
+
+  it('aborts when headers do not arrive within headersMs', async () => {
+    const { fetch, signals } = slowFetch(1000)
+    const timed = createTimeoutFetch(fetch, { providerId: 'p', headersMs: 10 })
+    const error = await timed('https://example.test').catch((e: unknown) => e)
+    expect(error).toBeInstanceOf(RequestTimeoutError)
+    expect((error as RequestTimeoutError).phase).toBe('headers')
+    expect((error as RequestTimeoutError).retryable).toBe(true)
+    expect(signals[0]?.aborted).toBe(true)
+  })
+
+  it('errors the body when the first chunk is late', async () => {
+    const { fetch } = slowFetch(1, [[1000, 'late']])
+    const timed = createTimeoutFetch(fetch, { providerId: 'p', firstByteMs: 10 })
+    const response = await timed('https://example.test')
+    const error = await response.text().catch((e: unknown) => e)
+    expect((error as RequestTimeoutError).phase).toBe('first-byte')
+  })
+
+  it('errors a stream that stalls between chunks', async () => {
+    const { fetch, signals } = slowFetch(1, [
+      [1, 'data: 1\n\n'],
+      [1000, 'data: 2\n\n'],
+    ])
+    const timed = createTimeoutFetch(fetch, { providerId: 'p', idleMs: 20 })
+    const reader = (await timed('https://example.test')).body?.getReader()
+    expect((await reader?.read())?.done).toBe(false)
+    const error = await reader?.read().catch((e: unknown) => e)
+    expect((error as RequestTimeoutError).phase).toBe('idle')
+    expect(signals[0]?.aborted).toBe(true)
+  })
+
+  it('bounds the whole request with totalMs', async () => {
+    const { fetch } = slowFetch(1, [
+      [15, 'a'],
+      [15, 'b'],
+      [15, 'c'],
+    ])
+    const timed = createTimeoutFetch(fetch, { providerId: 'p', idleMs: 100, totalMs: 30 })
+    const error = await (await timed('https://example.test')).text().catch((e: unknown) => e)
+    expect((error as RequestTimeoutError).phase).toBe('total')
+  })
+
+  it('keeps caller aborts as they are', async () => {
+    const { fetch } = slowFetch(1000)
+    const timed = createTimeoutFetch(fetch, { providerId: 'p', headersMs: 500 })
+    const caller = new AbortController()
+    const pending = timed('https://example.test', { signal: caller.signal }).catch((e: unknown) => e)
+    caller.abort(new Error('user cancelled'))
+    const error = await pending
+    expect(error).not.toBeInstanceOf(RequestTimeoutError)
+    expect((error as Error).message).toBe('user cancelled')
+  })
+
+  it('lets the retry fetch repeat a timed-out attempt', async () => {
+    let calls = 0
+    const { fetch: slow } = slowFetch(1000)
+    const fetch = ((input: string, init?: RequestInit) => {
+      calls++
+      return calls === 1 ? slow(input, init) : Promise.resolve(new Response('ok'))
+    }) as unknown as typeof globalThis.fetch
+    const timed = createRetryFetch(createTimeoutFetch(fetch, { providerId: 'p', headersMs: 10 }), {
+      initialDelayMs: 1,
+      maxDelayMs: 1,
+    })
+    expect(await (await timed('https://example.test')).text()).toBe('ok')
+    expect(calls).toBe(2)
+  })
+})
+
+describe('createStreamErrorMiddleware', () => {
+  it('ends a failed stream with an error part', async () => {
+    const failure = new RequestTimeoutError('stalled', 'idle', 10)
+    const model = wrapLanguageModel(
+      {
+        specificationVersion: 'v3',
+        provider: 'test',
+        modelId: 'model',
+        supportedUrls: {},
+        async doGenerate() {
+          throw new Error('unused')
+        },
+        async doStream() {
+          const stream = new ReadableStream<LanguageModelV3StreamPart>({
+            start(controller) {
+              controller.enqueue({ type: 'text-delta', id: '1', delta: 'hi' })
+            },
+            pull(controller) {
+              controller.error(failure)
+            },
+          })
+          return { stream }
+        },
+      } as LanguageModelV3,
+      [createStreamErrorMiddleware()]
+    )
+    const { stream } = await model.doStream({ prompt: [] })
+    const parts: LanguageModelV3StreamPart[] = []
+    for await (const part of stream) parts.push(part)
+    expect(parts.map((part) => part.type)).toEqual(['text-delta', 'error'])
+    expect(parts[1]).toEqual({ type: 'error', error: failure })
+  })
+})
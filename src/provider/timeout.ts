@@ -0,0 +1,179 @@
+import type { LanguageModelV3StreamPart } from '@ai-sdk/provider'
+import { createLogger } from '../logger.js'
+import { RequestTimeoutError, type TimeoutPhase } from '../types/errors.js'
+import type { TimeoutOptions } from '../types/provider.js'
+import type { LanguageModelMiddleware } from './middleware.js'
+
+const log = createLogger('provider:timeout')
+
+type FetchFunction = typeof globalThis.fetch
+
+const PHASE_DESCRIPTIONS: Record<TimeoutPhase, string> = {
+  headers: 'no response headers',
+  'first-byte': 'no response body',
+  total: 'request not finished',
+  idle: 'stream stalled, no chunk',
+}
+
+export interface TimeoutFetchOptions extends TimeoutOptions {
+  providerId: string
+}
+
+/**
+ * Wrap a fetch so configured timeouts abort the request with a
+ * RequestTimeoutError. The caller's AbortSignal still works: it is combined
+ * with the internal one, and its aborts pass through untouched. Body timeouts
+ * (first byte, idle, total) error the response stream, and the idle timer only
+ * runs while the body is being read, so a slow consumer is not timed out.
+ */
+export function createTimeoutFetch(baseFetch: FetchFunction, options: TimeoutFetchOptions): FetchFunction {
+  const { providerId, headersMs, firstByteMs, totalMs, idleMs } = options
+
+  const timeoutFetch = async (input: Parameters<FetchFunction>[0], init?: Parameters<FetchFunction>[1]) => {
+    const callerSignal = init?.signal ?? (input instanceof Request ? input.signal : undefined)
+    const controller = new AbortController()
+    const signal = callerSignal != null ? AbortSignal.any([callerSignal, controller.signal]) : controller.signal
+    const timers = new Map<TimeoutPhase, ReturnType<typeof setTimeout>>()
+    let onTimeout: ((error: RequestTimeoutError) => void) | undefined
+
+    const clear = (phase?: TimeoutPhase) => {
+      for (const [name, timer] of timers) {
+        if (phase !== undefined && name !== phase) continue
+        clearTimeout(timer)
+        timers.delete(name)
+      }
+      if (phase === undefined) callerSignal?.removeEventListener('abort', onCallerAbort)
+    }
+    function onCallerAbort() {
+      clear()
+    }
+
+    const arm = (phase: TimeoutPhase, ms: number | undefined) => {
+      if (ms === undefined) return
+      clear(phase)
+      timers.set(
+        phase,
+        setTimeout(() => {
+          const error = new RequestTimeoutError(
+            `${providerId}: ${PHASE_DESCRIPTIONS[phase]} within ${ms}ms`,
+            phase,
+            ms,
+            { providerID: providerId }
+          )
+          log('%s: %s timeout after %dms, aborting', providerId, phase, ms)
+          clear()
+          controller.abort(error)
+          onTimeout?.(error)
+        }, ms)
+      )
+    }
+
+    const timedOut = () =>
+      controller.signal.aborted && controller.signal.reason instanceof RequestTimeoutError
+        ? controller.signal.reason
+        : undefined
+
+    callerSignal?.addEventListener('abort', onCallerAbort, { once: true })
+    arm('headers', headersMs)
+    arm('total', totalMs)
+
+    let response: Response
+    try {
+      response = await baseFetch(input, { ...init, signal })
+    } catch (error) {
+      clear()
+      throw timedOut() ?? error
+    }
+    clear('headers')
+
+    const source = response.body
+    if (source === null || (firstByteMs === undefined && totalMs === undefined && idleMs === undefined)) {
+      clear()
+      return response
+    }
+
+    const reader = source.getReader()
+    let received = false
+    let settled = false
+    arm('first-byte', firstByteMs)
+
+    const body = new ReadableStream<Uint8Array>({
+      start(streamController) {
+        onTimeout = (error) => {
+          if (settled) return
+          settled = true
+          streamController.error(error)
+          reader.cancel(error).catch(() => {})
+        }
+      },
+      async pull(streamController) {
+        if (received) arm('idle', idleMs)
+        let chunk: Awaited<ReturnType<typeof reader.read>>
+        try {
+          chunk = await reader.read()
+        } catch (error) {
+          clear()
+          if (!settled) {
+            settled = true
+            streamController.error(timedOut() ?? error)
+          }
+          return
+        }
+        if (settled) return
+        clear('first-byte')
+        clear('idle')
+        received = true
+        if (chunk.done) {
+          settled = true
+          clear()
+          streamController.close()
+          return
+        }
+        streamController.enqueue(chunk.value)
+      },
+      cancel(reason) {
+        settled = true
+        clear()
+        return reader.cancel(reason)
+      },
+    })
+
+    return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers })
+  }
+  return timeoutFetch as FetchFunction
+}
+
+/**
+ * A body that fails mid-stream (an idle or total timeout, a dropped
+ * connection) errors the model's stream. This turns the failure into an error
+ * part and ends the stream, the way providers report stream errors, so the
+ * circuit breaker and request events middlewares, which watch for error
+ * parts, see the failure too.
+ */
+export function createStreamErrorMiddleware(): LanguageModelMiddleware {
+  return {
+    specificationVersion: 'v3',
+
+    async wrapStream({ doStream }) {
+      const result = await doStream()
+      const reader = result.stream.getReader()
+      const stream = new ReadableStream<LanguageModelV3StreamPart>({
+        async pull(controller) {
+          try {
+            const { done, value } = await reader.read()
+            if (done) controller.close()
+            else controller.enqueue(value)
+          } catch (error) {
+            log('stream failed: %s', error instanceof Error ? error.message : String(error))
+            controller.enqueue({ type: 'error', error })
+            controller.close()
+          }
+        },
+        cancel(reason) {
+          return reader.cancel(reason)
+        },
+      })
+      return { ...result, stream }
+    },
+  }
+}
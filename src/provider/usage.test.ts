@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'bun:test'
+import type { LanguageModelV3Usage } from '@ai-sdk/provider'
+import type { UsageRecord } from './usage.js'
+import { computeCost, createUsageTracker, normalizeUsage } from './usage.js'
+
+function usage(input: number, output: number, cacheRead = 0, cacheWrite = 0): LanguageModelV3Usage {
+  return {
+    inputTokens: { total: input, noCache: input - cacheRead - cacheWrite, cacheRead, cacheWrite },
+    outputTokens: { total: output, text: output, reasoning: undefined },
+  }
+}
+
+function record(overrides: Partial<UsageRecord>): UsageRecord {
+  return {
+    providerId: 'openai',
+    modelId: 'gpt-4o',
+    credential: 'env:OPENAI_API_KEY',
+    inputTokens: 100,
+    outputTokens: 10,
+    cacheReadTokens: 0,
+    cacheWriteTokens: 0,
+    reasoningTokens: 0,
+    cost: 0.001,
+    timestamp: 0,
+    ...overrides,
+  }
+}
+
+describe('computeCost', () => {
+  it('prices tokens per million', () => {
+    const cost = computeCost(normalizeUsage(usage(1_000_000, 500_000)), { input: 3, output: 15 })
+    expect(cost).toBeCloseTo(10.5)
+  })
+
+  it('bills cached input at cache_read and cache_write prices', () => {
+    const cost = computeCost(normalizeUsage(usage(1_000_000, 0, 600_000, 200_000)), {
+      input: 3,
+      output: 15,
+      cache_read: 0.3,
+      cache_write: 3.75,
+    })
+    // 200k uncached * 3 + 600k * 0.3 + 200k * 3.75
+    expect(cost).toBeCloseTo(0.6 + 0.18 + 0.75)
+  })
+
+  it('falls back to the input price without cache pricing', () => {
+    const cost = computeCost(normalizeUsage(usage(1_000_000, 0, 500_000)), { input: 2, output: 8 })
+    expect(cost).toBeCloseTo(2)
+  })
+
+  it('returns undefined without pricing', () => {
+    expect(computeCost(normalizeUsage(usage(10, 10)), undefined)).toBeUndefined()
+  })
+})
+
+describe('createUsageTracker', () => {
+  it('aggregates by provider, model and credential', () => {
+    const tracker = createUsageTracker()
+    tracker.record(record({}))
+    tracker.record(record({ credential: 'work' }))
+    tracker.record(record({ providerId: 'anthropic', modelId: 'claude', credential: 'auth', cost: undefined }))
+
+    expect(tracker.totals()).toMatchObject({ requests: 3, inputTokens: 300, unpricedRequests: 1 })
+    expect(tracker.totals().cost).toBeCloseTo(0.002)
+    expect(Object.keys(tracker.byProvider())).toEqual(['openai', 'anthropic'])
+    expect(tracker.byModel()['openai/gpt-4o']?.requests).toBe(2)
+    expect(tracker.byCredential()['openai:work']?.requests).toBe(1)
+  })
+
+  it('bounds retained records without affecting totals', () => {
+    const tracker = createUsageTracker({ maxRecords: 2 })
+    for (let i = 0; i < 5; i++) tracker.record(record({ timestamp: i }))
+    expect(tracker.records().map((r) => r.timestamp)).toEqual([3, 4])
+    expect(tracker.totals().requests).toBe(5)
+  })
+
+  it('notifies subscribers until they unsubscribe', () => {
+    const tracker = createUsageTracker()
+    const seen: UsageRecord[] = []
+    const unsubscribe = tracker.subscribe((r) => seen.push(r))
+    tracker.record(record({}))
+    unsubscribe()
+    tracker.record(record({}))
+    expect(seen).toHaveLength(1)
+  })
+})
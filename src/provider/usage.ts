@@ -0,0 +1,215 @@
+import type { LanguageModelV3StreamPart, LanguageModelV3Usage } from '@ai-sdk/provider'
+import { createLogger } from '../logger.js'
+import type { ModelDefinition } from '../types/model.js'
+import type { LanguageModelMiddleware } from './middleware.js'
+
+const log = createLogger('provider:usage')
+
+const DEFAULT_MAX_RECORDS = 1000
+
+export interface UsageRecord {
+  providerId: string
+  modelId: string
+  /** Which credential served the call: a pool key label, or the credential location/source */
+  credential: string
+  inputTokens: number
+  outputTokens: number
+  cacheReadTokens: number
+  cacheWriteTokens: number
+  reasoningTokens: number
+  /** USD, computed from catalog pricing; undefined when the model has no cost data */
+  cost?: number
+  timestamp: number
+}
+
+export interface UsageTotals {
+  requests: number
+  inputTokens: number
+  outputTokens: number
+  cacheReadTokens: number
+  cacheWriteTokens: number
+  reasoningTokens: number
+  /** USD total of the records that had pricing */
+  cost: number
+  /** Requests whose model had no pricing in the catalog */
+  unpricedRequests: number
+}
+
+export interface UsageTracker {
+  record(record: UsageRecord): void
+  totals(): UsageTotals
+  byProvider(): Record<string, UsageTotals>
+  /** Keyed by "provider/model" */
+  byModel(): Record<string, UsageTotals>
+  /** Keyed by "provider:credential" */
+  byCredential(): Record<string, UsageTotals>
+  /** Most recent records, oldest first */
+  records(): UsageRecord[]
+  subscribe(listener: (record: UsageRecord) => void): () => void
+  reset(): void
+}
+
+export interface UsageTrackerOptions {
+  /** How many individual records to keep for records() (default 1000). Totals are unaffected. */
+  maxRecords?: number
+}
+
+function emptyTotals(): UsageTotals {
+  return {
+    requests: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheReadTokens: 0,
+    cacheWriteTokens: 0,
+    reasoningTokens: 0,
+    cost: 0,
+    unpricedRequests: 0,
+  }
+}
+
+function addToTotals(totals: UsageTotals, record: UsageRecord): void {
+  totals.requests += 1
+  totals.inputTokens += record.inputTokens
+  totals.outputTokens += record.outputTokens
+  totals.cacheReadTokens += record.cacheReadTokens
+  totals.cacheWriteTokens += record.cacheWriteTokens
+  totals.reasoningTokens += record.reasoningTokens
+  if (record.cost === undefined) totals.unpricedRequests += 1
+  else totals.cost += record.cost
+}
+
+/**
+ * Cost in USD of one call, from per-million-token catalog prices. Cached
+ * input is billed at cache_read/cache_write when the catalog has them, and at
+ * the regular input price otherwise.
+ */
+export function computeCost(
+  usage: Pick<UsageRecord, 'inputTokens' | 'outputTokens' | 'cacheReadTokens' | 'cacheWriteTokens'>,
+  cost: ModelDefinition['cost']
+): number | undefined {
+  if (cost === undefined) return undefined
+  const uncachedInput = Math.max(0, usage.inputTokens - usage.cacheReadTokens - usage.cacheWriteTokens)
+  return (
+    (uncachedInput * cost.input +
+      usage.cacheReadTokens * (cost.cache_read ?? cost.input) +
+      usage.cacheWriteTokens * (cost.cache_write ?? cost.input) +
+      usage.outputTokens * cost.output) /
+    1_000_000
+  )
+}
+
+export function normalizeUsage(
+  usage: LanguageModelV3Usage
+): Pick<UsageRecord, 'inputTokens' | 'outputTokens' | 'cacheReadTokens' | 'cacheWriteTokens' | 'reasoningTokens'> {
+  const cacheReadTokens = usage.inputTokens.cacheRead ?? 0
+  const cacheWriteTokens = usage.inputTokens.cacheWrite ?? 0
+  const inputTokens = usage.inputTokens.total ?? (usage.inputTokens.noCache ?? 0) + cacheReadTokens + cacheWriteTokens
+  return {
+    inputTokens,
+    outputTokens: usage.outputTokens.total ?? 0,
+    cacheReadTokens,
+    cacheWriteTokens,
+    reasoningTokens: usage.outputTokens.reasoning ?? 0,
+  }
+}
+
+export function createUsageTracker(options: UsageTrackerOptions = {}): UsageTracker {
+  const maxRecords = options.maxRecords ?? DEFAULT_MAX_RECORDS
+  let overall = emptyTotals()
+  let providers = new Map<string, UsageTotals>()
+  let models = new Map<string, UsageTotals>()
+  let credentials = new Map<string, UsageTotals>()
+  let recent: UsageRecord[] = []
+  const listeners = new Set<(record: UsageRecord) => void>()
+
+  function bump(map: Map<string, UsageTotals>, key: string, record: UsageRecord): void {
+    const totals = map.get(key) ?? emptyTotals()
+    addToTotals(totals, record)
+    map.set(key, totals)
+  }
+
+  function snapshot(map: Map<string, UsageTotals>): Record<string, UsageTotals> {
+    return Object.fromEntries([...map].map(([k, v]) => [k, { ...v }]))
+  }
+
+  return {
+    record(record: UsageRecord): void {
+      addToTotals(overall, record)
+      bump(providers, record.providerId, record)
+      bump(models, `${record.providerId}/${record.modelId}`, record)
+      bump(credentials, `${record.providerId}:${record.credential}`, record)
+      recent.push(record)
+      if (recent.length > maxRecords) recent = recent.slice(recent.length - maxRecords)
+      for (const listener of listeners) {
+        try {
+          listener(record)
+        } catch (err) {
+          log('usage listener failed: %s', err instanceof Error ? err.message : String(err))
+        }
+      }
+    },
+
+    totals: () => ({ ...overall }),
+    byProvider: () => snapshot(providers),
+    byModel: () => snapshot(models),
+    byCredential: () => snapshot(credentials),
+    records: () => [...recent],
+
+    subscribe(listener) {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+
+    reset(): void {
+      overall = emptyTotals()
+      providers = new Map()
+      models = new Map()
+      credentials = new Map()
+      recent = []
+    },
+  }
+}
+
+export interface UsageMiddlewareOptions {
+  tracker: UsageTracker
+  providerId: string
+  modelId: string
+  credential: string
+  /** Looked up at record time so catalog refreshes are picked up */
+  getCost: () => ModelDefinition['cost']
+}
+
+/** Records the usage of every generate and completed stream call into a tracker. */
+export function createUsageMiddleware(options: UsageMiddlewareOptions): LanguageModelMiddleware {
+  const { tracker, providerId, modelId, credential, getCost } = options
+
+  function record(usage: LanguageModelV3Usage): void {
+    const normalized = normalizeUsage(usage)
+    const cost = computeCost(normalized, getCost())
+    tracker.record({ providerId, modelId, credential, ...normalized, cost, timestamp: Date.now() })
+    log('%s/%s: in=%d out=%d cost=%s', providerId, modelId, normalized.inputTokens, normalized.outputTokens, cost)
+  }
+
+  return {
+    specificationVersion: 'v3',
+
+    async wrapGenerate({ doGenerate }) {
+      const result = await doGenerate()
+      record(result.usage)
+      return result
+    },
+
+    async wrapStream({ doStream }) {
+      const result = await doStream()
+      const meter = new TransformStream<LanguageModelV3StreamPart, LanguageModelV3StreamPart>({
+        transform(part, controller) {
+          if (part.type === 'finish') record(part.usage)
+          controller.enqueue(part)
+        },
+      })
+      return { ...result, stream: result.stream.pipeThrough(meter) }
+    },
+  }
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'bun:test'
+import { classifyHttpStatus, classifyValidationError, getModelsEndpoint, probeModelsEndpoint } from './validate.js'
+
+describe('classifyHttpStatus', () => {
+  it('separates bad keys, expired OAuth and missing scopes', () => {
+    expect(classifyHttpStatus(200, false)).toBe('valid')
+    expect(classifyHttpStatus(401, false)).toBe('invalid_key')
+    expect(classifyHttpStatus(401, true)).toBe('expired_oauth')
+    expect(classifyHttpStatus(403, false, 'Missing scopes: api.model.read')).toBe('missing_scope')
+    expect(classifyHttpStatus(403, false, 'forbidden')).toBe('invalid_key')
+    expect(classifyHttpStatus(500, false)).toBe('error')
+  })
+
+  it('treats request errors after authentication as valid', () => {
+    expect(classifyHttpStatus(400, false)).toBe('valid')
+    expect(classifyHttpStatus(429, false)).toBe('valid')
+  })
+})
+
+describe('classifyValidationError', () => {
+  it('reads status codes from SDK errors', () => {
+    const error = Object.assign(new Error('Unauthorized'), { statusCode: 401, responseBody: '{}' })
+    expect(classifyValidationError(error, true)).toMatchObject({ status: 'expired_oauth', statusCode: 401 })
+  })
+
+  it('reports network failures and timeouts', () => {
+    expect(classifyValidationError(new TypeError('fetch failed'), false).status).toBe('network_error')
+    expect(classifyValidationError(new DOMException('timed out', 'TimeoutError'), false).status).toBe('network_error')
+  })
+})
+
+describe('probeModelsEndpoint', () => {
+  it('sends the provider auth headers to the models endpoint', async () => {
+    const seen: Array<{ url: string; headers: Headers }> = []
+    const fetch = (async (url: string, init?: RequestInit) => {
+      seen.push({ url, headers: new Headers(init?.headers) })
+      return new Response('{"data":[]}')
+    }) as unknown as typeof globalThis.fetch
+    const endpoint = getModelsEndpoint('@ai-sdk/anthropic')
+    if (endpoint === undefined) throw new Error('missing endpoint')
+
+    const result = await probeModelsEndpoint({
+      endpoint,
+      key: 'sk-ant-test',
+      fetch,
+      oauth: false,
+      signal: new AbortController().signal,
+    })
+    expect(result).toMatchObject({ status: 'valid', method: 'models', statusCode: 200 })
+    expect(seen[0]?.url).toBe('https://api.anthropic.com/v1/models?limit=1')
+    expect(seen[0]?.headers.get('x-api-key')).toBe('sk-ant-test')
+  })
+})
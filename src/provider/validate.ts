@@ -0,0 +1,148 @@
+import { createLogger } from '../logger.js'
+import { errorStatusCode, isNetworkError } from './http.js'
+
+const log = createLogger('provider:validate')
+
+export const DEFAULT_VALIDATE_TIMEOUT_MS = 15_000
+
+export type ValidationStatus =
+  | 'valid'
+  | 'invalid_key'
+  | 'expired_oauth'
+  | 'missing_scope'
+  | 'network_error'
+  | 'no_credential'
+  | 'error'
+
+export interface ValidationResult {
+  providerId: string
+  status: ValidationStatus
+  valid: boolean
+  /** How the credential was checked: an authenticated models/key listing, or a 1-token generation */
+  method?: 'models' | 'generate'
+  latencyMs: number
+  statusCode?: number
+  /** Where the credential came from, e.g. "env:OPENAI_API_KEY" */
+  credential?: string
+  message?: string
+}
+
+export interface ValidateOptions {
+  /** Abort the check after this long (default 15s) */
+  timeoutMs?: number
+}
+
+interface ModelsEndpoint {
+  defaultBaseURL: string
+  path: string
+  headers(key: string): Record<string, string>
+}
+
+const bearer = (key: string): Record<string, string> => ({ Authorization: `Bearer ${key}` })
+
+/**
+ * Cheapest authenticated endpoint per bundled package. OpenRouter's model list
+ * is public, so its key endpoint is used instead. Packages missing here
+ * (Azure, Bedrock, Vertex, ...) are checked with a 1-token generation.
+ */
+const MODELS_ENDPOINTS: Record<string, ModelsEndpoint> = {
+  '@ai-sdk/anthropic': {
+    defaultBaseURL: 'https://api.anthropic.com/v1',
+    path: '/models?limit=1',
+    headers: (key) => ({ 'x-api-key': key, 'anthropic-version': '2023-06-01' }),
+  },
+  '@ai-sdk/openai': { defaultBaseURL: 'https://api.openai.com/v1', path: '/models', headers: bearer },
+  '@ai-sdk/google': {
+    defaultBaseURL: 'https://generativelanguage.googleapis.com/v1beta',
+    path: '/models?pageSize=1',
+    headers: (key) => ({ 'x-goog-api-key': key }),
+  },
+  '@ai-sdk/xai': { defaultBaseURL: 'https://api.x.ai/v1', path: '/models', headers: bearer },
+  '@ai-sdk/mistral': { defaultBaseURL: 'https://api.mistral.ai/v1', path: '/models', headers: bearer },
+  '@ai-sdk/groq': { defaultBaseURL: 'https://api.groq.com/openai/v1', path: '/models', headers: bearer },
+  '@openrouter/ai-sdk-provider': { defaultBaseURL: 'https://openrouter.ai/api/v1', path: '/key', headers: bearer },
+  '@ai-sdk/openai-compatible': { defaultBaseURL: '', path: '/models', headers: bearer },
+  '@ai-sdk/deepseek': { defaultBaseURL: 'https://api.deepseek.com', path: '/models', headers: bearer },
+  '@ai-sdk/cerebras': { defaultBaseURL: 'https://api.cerebras.ai/v1', path: '/models', headers: bearer },
+  '@ai-sdk/togetherai': { defaultBaseURL: 'https://api.together.xyz/v1', path: '/models', headers: bearer },
+  '@ai-sdk/fireworks': { defaultBaseURL: 'https://api.fireworks.ai/inference/v1', path: '/models', headers: bearer },
+}
+
+export function getModelsEndpoint(bundledProvider: string): ModelsEndpoint | undefined {
+  return MODELS_ENDPOINTS[bundledProvider]
+}
+
+function isScopeError(body: string): boolean {
+  return /scope|permission/i.test(body)
+}
+
+/**
+ * Map an HTTP status from a validation call onto a status. Servers authenticate
+ * before validating the request, so a 400/404/422 on the probe still means the
+ * credential was accepted.
+ */
+export function classifyHttpStatus(statusCode: number, oauth: boolean, body = ''): ValidationStatus {
+  if (statusCode < 300) return 'valid'
+  if (statusCode === 401) return oauth ? 'expired_oauth' : 'invalid_key'
+  if (statusCode === 403) return isScopeError(body) || oauth ? 'missing_scope' : 'invalid_key'
+  if (statusCode === 400 || statusCode === 404 || statusCode === 422 || statusCode === 429) return 'valid'
+  return 'error'
+}
+
+export function classifyValidationError(
+  error: unknown,
+  oauth: boolean
+): Omit<ValidationResult, 'providerId' | 'latencyMs'> {
+  const message = error instanceof Error ? error.message : String(error)
+  const statusCode = errorStatusCode(error)
+  if (statusCode !== undefined) {
+    const body = (error as { responseBody?: unknown }).responseBody
+    const status = classifyHttpStatus(statusCode, oauth, typeof body === 'string' ? body : message)
+    return { status, valid: status === 'valid', statusCode, message }
+  }
+  if (error instanceof Error && error.name === 'AI_LoadAPIKeyError') {
+    return { status: 'no_credential', valid: false, message }
+  }
+  if (
+    isNetworkError(error) ||
+    (error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError'))
+  ) {
+    return { status: 'network_error', valid: false, message }
+  }
+  return { status: 'error', valid: false, message }
+}
+
+export interface ModelsProbe {
+  endpoint: ModelsEndpoint
+  baseURL?: string
+  key: string
+  headers?: Record<string, string>
+  fetch: typeof globalThis.fetch
+  oauth: boolean
+  signal: AbortSignal
+}
+
+/** GET the provider's models endpoint with the resolved credential. */
+export async function probeModelsEndpoint(
+  probe: ModelsProbe
+): Promise<Omit<ValidationResult, 'providerId' | 'latencyMs'>> {
+  const baseURL = (probe.baseURL ?? probe.endpoint.defaultBaseURL).replace(/\/+$/, '')
+  const url = `${baseURL}${probe.endpoint.path}`
+  log('probing %s', url)
+  const response = await probe.fetch(url, {
+    method: 'GET',
+    headers: { ...probe.headers, ...probe.endpoint.headers(probe.key) },
+    signal: probe.signal,
+  })
+  let body = ''
+  if (response.ok) await response.body?.cancel().catch(() => {})
+  else body = await response.text().catch(() => '')
+  const status = classifyHttpStatus(response.status, probe.oauth, body)
+  return {
+    status,
+    valid: status === 'valid',
+    method: 'models',
+    statusCode: response.status,
+    ...(body.length > 0 ? { message: body.slice(0, 500) } : {}),
+  }
+}
@@ -0,0 +1,99 @@
+import { beforeEach, describe, expect, it } from 'bun:test'
+import { trace } from '@opentelemetry/api'
+import { BasicTracerProvider, InMemorySpanExporter, SimpleSpanProcessor } from '@opentelemetry/sdk-trace-base'
+import { Catalog } from './catalog/catalog.js'
+import { loadPluginOptions, registerPlugin } from './plugin/index.js'
+import { sanitizeUrl, withSpan } from './telemetry.js'
+
+const exporter = new InMemorySpanExporter()
+trace.setGlobalTracerProvider(new BasicTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] }))
+
+const spans = (name: string) => exporter.getFinishedSpans().filter((span) => span.name === name)
+
+beforeEach(() => exporter.reset())
+
+describe('withSpan', () => {
+  it('records attributes and drops undefined ones', async () => {
+    const result = await withSpan('test.op', { 'a.b': 'x', missing: undefined }, async (span) => {
+      span.setAttributes({ count: 2 })
+      return 42
+    })
+    expect(result).toBe(42)
+    const [span] = spans('test.op')
+    expect(span?.attributes).toEqual({ 'a.b': 'x', count: 2 })
+    expect(span?.status.code).toBe(0)
+  })
+
+  it('marks the span failed and rethrows', async () => {
+    await expect(
+      withSpan('test.fail', {}, async () => {
+        throw new Error('boom')
+      })
+    ).rejects.toThrow('boom')
+    const [span] = spans('test.fail')
+    expect(span?.status).toMatchObject({ code: 2, message: 'boom' })
+    expect(span?.events[0]?.name).toBe('exception')
+  })
+})
+
+describe('sanitizeUrl', () => {
+  it('drops query strings and fragments', () => {
+    expect(sanitizeUrl('https://example.com/v1beta/models?key=AIza-secret#x')).toBe('https://example.com/v1beta/models')
+  })
+})
+
+describe('plugin tracing', () => {
+  it('traces the loader and every request through the plugin fetch, without secrets', async () => {
+    registerPlugin({
+      provider: 'traced-test',
+      async loader(getAuth) {
+        const auth = await getAuth()
+        return {
+          apiKey: 'placeholder',
+          fetch: (input: string, init?: RequestInit) => {
+            const headers = new Headers(init?.headers)
+            headers.set('Authorization', `Bearer ${auth.key}`)
+            return Promise.resolve(new Response('{}', { status: 401 }))
+          },
+        }
+      },
+      methods: [],
+    })
+    const options = await loadPluginOptions(
+      'traced-test',
+      async () => ({ type: 'oauth', key: 'secret-token' }),
+      { id: 'traced-test:work', name: 'Traced' },
+      async () => {}
+    )
+    const fetch = options?.fetch as typeof globalThis.fetch
+    await fetch('https://api.example.com/v1/chat?key=secret-token', { method: 'POST' })
+
+    expect(spans('openllmprovider.plugin.load')[0]?.attributes).toEqual({
+      'openllmprovider.provider.id': 'traced-test:work',
+      'openllmprovider.plugin': 'traced-test',
+    })
+    const [request] = spans('openllmprovider.plugin.fetch')
+    expect(request?.attributes).toMatchObject({
+      'http.request.method': 'POST',
+      'url.full': 'https://api.example.com/v1/chat',
+      'server.address': 'api.example.com',
+      'http.response.status_code': 401,
+    })
+    expect(request?.status.code).toBe(2)
+    const serialized = JSON.stringify(exporter.getFinishedSpans().map((span) => span.attributes))
+    expect(serialized).not.toContain('secret-token')
+  })
+})
+
+describe('catalog tracing', () => {
+  it('records failed refreshes as errors', async () => {
+    const catalog = new Catalog({
+      remote: { url: 'https://models.example.com/api.json', fetch: async () => new Response('', { status: 503 }) },
+    })
+    const result = await catalog.refresh()
+    expect(result.success).toBe(false)
+    const [span] = spans('openllmprovider.catalog.refresh')
+    expect(span?.attributes['url.full']).toBe('https://models.example.com/api.json')
+    expect(span?.status.code).toBe(2)
+  })
+})
@@ -0,0 +1,122 @@
+import type * as OtelApi from '@opentelemetry/api'
+import { createLogger } from './logger.js'
+
+const log = createLogger('telemetry')
+
+const TRACER_NAME = 'openllmprovider'
+
+/**
+ * Only identifiers go into attributes: provider and model ids, credential
+ * sources and locations, sanitized URLs. Never keys, tokens or headers.
+ */
+export type SpanAttributes = Record<string, string | number | boolean | undefined>
+
+export interface SpanHandle {
+  setAttributes(attributes: SpanAttributes): void
+  /** Mark the span failed without throwing, for operations that report errors as results */
+  recordError(error: unknown): void
+}
+
+let apiPromise: Promise<typeof OtelApi | undefined> | undefined
+
+/** @opentelemetry/api is an optional peer; without it spans cost one resolved promise */
+function loadApi(): Promise<typeof OtelApi | undefined> {
+  if (apiPromise === undefined) {
+    apiPromise = import('@opentelemetry/api').then(
+      (api) => {
+        log('@opentelemetry/api found, emitting spans')
+        return api
+      },
+      () => {
+        log('@opentelemetry/api not installed, tracing disabled')
+        return undefined
+      }
+    )
+  }
+  return apiPromise
+}
+
+const noopSpan: SpanHandle = {
+  setAttributes() {},
+  recordError() {},
+}
+
+function definedAttributes(attributes: SpanAttributes): OtelApi.Attributes {
+  return Object.fromEntries(Object.entries(attributes).filter(([, value]) => value !== undefined)) as OtelApi.Attributes
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+/**
+ * Run `fn` inside an active span, so spans started within it become children.
+ * A thrown error is recorded on the span and rethrown.
+ */
+export async function withSpan<T>(
+  name: string,
+  attributes: SpanAttributes,
+  fn: (span: SpanHandle) => Promise<T>
+): Promise<T> {
+  const api = await loadApi()
+  if (api === undefined) return fn(noopSpan)
+
+  return api.trace
+    .getTracer(TRACER_NAME)
+    .startActiveSpan(name, { attributes: definedAttributes(attributes) }, async (span) => {
+      const fail = (error: unknown) => {
+        if (error instanceof Error) span.recordException(error)
+        span.setStatus({ code: api.SpanStatusCode.ERROR, message: errorMessage(error) })
+      }
+      try {
+        return await fn({ setAttributes: (attrs) => span.setAttributes(definedAttributes(attrs)), recordError: fail })
+      } catch (error) {
+        fail(error)
+        throw error
+      } finally {
+        span.end()
+      }
+    })
+}
+
+/** Origin and path only: query strings can carry keys (e.g. Google's `?key=`) */
+export function sanitizeUrl(input: string | URL | Request): string {
+  const raw = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url
+  try {
+    const url = new URL(raw)
+    return `${url.origin}${url.pathname}`
+  } catch {
+    return raw.split(/[?#]/)[0] ?? ''
+  }
+}
+
+/** Wrap a fetch so every request gets a client span with method, URL and status */
+export function traceFetch(
+  name: string,
+  fetch: typeof globalThis.fetch,
+  attributes: SpanAttributes
+): typeof globalThis.fetch {
+  const traced = (input: Parameters<typeof globalThis.fetch>[0], init?: Parameters<typeof globalThis.fetch>[1]) => {
+    const url = sanitizeUrl(input)
+    const method = init?.method ?? (input instanceof Request ? input.method : 'GET')
+    return withSpan(
+      name,
+      { ...attributes, 'http.request.method': method, 'url.full': url, 'server.address': safeHost(url) },
+      async (span) => {
+        const response = await fetch(input, init)
+        span.setAttributes({ 'http.response.status_code': response.status })
+        if (response.status >= 400) span.recordError(new Error(`HTTP ${response.status}`))
+        return response
+      }
+    )
+  }
+  return traced as typeof globalThis.fetch
+}
+
+function safeHost(url: string): string | undefined {
+  try {
+    return new URL(url).hostname
+  } catch {
+    return undefined
+  }
+}
@@ -5,30 +5,56 @@ export type ErrorCode =
   | 'CREDENTIAL_NOT_FOUND'
   | 'PROVIDER_NOT_REGISTERED'
   | 'CATALOG_SYNC_FAILED'
+  | 'BUDGET_EXCEEDED'
+  | 'PROVIDER_UNAVAILABLE'
+  | 'RATE_LIMITED'
+  | 'QUOTA_EXHAUSTED'
+  | 'AUTH_EXPIRED'
+  | 'CONTEXT_LENGTH_EXCEEDED'
+  | 'CONTENT_FILTERED'
+  | 'UPSTREAM_ERROR'
+  | 'REQUEST_TIMEOUT'
 
-interface ErrorOptions {
+export interface ErrorOptions {
   providerID?: string
   modelId?: string
+  /** Whether the same request may succeed later. Defaults to false. */
+  retryable?: boolean
+  /** HTTP status of the upstream response the error was classified from */
+  statusCode?: number
+  responseBody?: string
+  responseHeaders?: Record<string, string>
+  cause?: unknown
 }
 
 interface ErrorJSON {
   code: ErrorCode
   message: string
+  retryable: boolean
   providerID?: string
   modelId?: string
+  statusCode?: number
 }
 
 export class OpenLLMProviderError extends Error {
   readonly code: ErrorCode
+  readonly retryable: boolean
   readonly providerID?: string
   readonly modelId?: string
+  readonly statusCode?: number
+  readonly responseBody?: string
+  readonly responseHeaders?: Record<string, string>
 
   constructor(message: string, code: ErrorCode, options?: ErrorOptions) {
-    super(message)
+    super(message, options?.cause !== undefined ? { cause: options.cause } : undefined)
     this.name = this.constructor.name
     this.code = code
+    this.retryable = options?.retryable ?? false
     this.providerID = options?.providerID
     this.modelId = options?.modelId
+    this.statusCode = options?.statusCode
+    this.responseBody = options?.responseBody
+    this.responseHeaders = options?.responseHeaders
     const captureStackTrace = (
       Error as unknown as {
         captureStackTrace?: (target: Error, ctor: typeof Error) => void
@@ -43,9 +69,11 @@ export class OpenLLMProviderError extends Error {
     const result: ErrorJSON = {
       code: this.code,
       message: this.message,
+      retryable: this.retryable,
     }
     if (this.providerID !== undefined) result.providerID = this.providerID
     if (this.modelId !== undefined) result.modelId = this.modelId
+    if (this.statusCode !== undefined) result.statusCode = this.statusCode
     return result
   }
 }
@@ -85,3 +113,93 @@ export class CatalogSyncFailedError extends OpenLLMProviderError {
     super(message, 'CATALOG_SYNC_FAILED', options)
   }
 }
+
+export interface BudgetExceededDetails {
+  /** 'total', a provider id, or "provider/model" */
+  scope: string
+  period: 'daily' | 'monthly'
+  spent: number
+  limit: number
+}
+
+export class BudgetExceededError extends OpenLLMProviderError {
+  readonly scope: string
+  readonly period: 'daily' | 'monthly'
+  readonly spent: number
+  readonly limit: number
+
+  constructor(message: string, details: BudgetExceededDetails, options?: ErrorOptions) {
+    super(message, 'BUDGET_EXCEEDED', options)
+    this.scope = details.scope
+    this.period = details.period
+    this.spent = details.spent
+    this.limit = details.limit
+  }
+}
+
+export class ProviderUnavailableError extends OpenLLMProviderError {
+  /** Milliseconds until the circuit lets a trial request through */
+  readonly retryAfterMs: number
+
+  constructor(message: string, retryAfterMs: number, options?: ErrorOptions) {
+    super(message, 'PROVIDER_UNAVAILABLE', { retryable: true, ...options })
+    this.retryAfterMs = retryAfterMs
+  }
+}
+
+export class RateLimitError extends OpenLLMProviderError {
+  /** Server-suggested wait from Retry-After or the vendor reset headers, if any */
+  readonly retryAfterMs?: number
+
+  constructor(message: string, retryAfterMs?: number, options?: ErrorOptions) {
+    super(message, 'RATE_LIMITED', { retryable: true, ...options })
+    this.retryAfterMs = retryAfterMs
+  }
+}
+
+/** Credits, billing or a hard usage quota ran out; retrying will not help until it is topped up */
+export class QuotaExhaustedError extends OpenLLMProviderError {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, 'QUOTA_EXHAUSTED', options)
+  }
+}
+
+/** An OAuth token was rejected as expired; the credential needs a refresh or a new login */
+export class AuthExpiredError extends OpenLLMProviderError {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, 'AUTH_EXPIRED', options)
+  }
+}
+
+export class ContextLengthExceededError extends OpenLLMProviderError {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, 'CONTEXT_LENGTH_EXCEEDED', options)
+  }
+}
+
+export class ContentFilteredError extends OpenLLMProviderError {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, 'CONTENT_FILTERED', options)
+  }
+}
+
+/** Any other upstream failure. Retryable for 408, 409, 429 and 5xx responses. */
+export class UpstreamError extends OpenLLMProviderError {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, 'UPSTREAM_ERROR', options)
+  }
+}
+
+export type TimeoutPhase = 'headers' | 'first-byte' | 'total' | 'idle'
+
+/** A configured provider timeout expired and the request was aborted */
+export class RequestTimeoutError extends OpenLLMProviderError {
+  readonly phase: TimeoutPhase
+  readonly timeoutMs: number
+
+  constructor(message: string, phase: TimeoutPhase, timeoutMs: number, options?: ErrorOptions) {
+    super(message, 'REQUEST_TIMEOUT', { retryable: true, ...options })
+    this.phase = phase
+    this.timeoutMs = timeoutMs
+  }
+}
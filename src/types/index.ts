@@ -1,18 +1,51 @@
-import type { LanguageModelV3 } from '@ai-sdk/provider'
+import type {
+  EmbeddingModelV3,
+  ImageModelV3,
+  LanguageModelV3,
+  RerankingModelV3,
+  SpeechModelV3,
+  TranscriptionModelV3,
+} from '@ai-sdk/provider'
 
 export type LanguageModel = LanguageModelV3
-export type { LanguageModelV3 }
+export type EmbeddingModel = EmbeddingModelV3
+export type ImageModel = ImageModelV3
+export type SpeechModel = SpeechModelV3
+export type TranscriptionModel = TranscriptionModelV3
+export type RerankingModel = RerankingModelV3
+export type { LanguageModelV3, EmbeddingModelV3, ImageModelV3, SpeechModelV3, TranscriptionModelV3, RerankingModelV3 }
 
-export type { ProviderDefinition, ProviderUserConfig } from './provider.js'
-export { ProviderDefinitionSchema, ProviderUserConfigSchema } from './provider.js'
+export type {
+  ProviderDefinition,
+  ProviderUserConfig,
+  RateLimit,
+  RetryOptions,
+  SpendBudget,
+  TimeoutOptions,
+} from './provider.js'
+export {
+  ProviderDefinitionSchema,
+  ProviderUserConfigSchema,
+  RateLimitSchema,
+  RetryOptionsSchema,
+  SpendBudgetSchema,
+  TimeoutOptionsSchema,
+} from './provider.js'
 
-export type { ModelDefinition, ModelAlias } from './model.js'
-export { ModelDefinitionSchema, ModelAliasSchema } from './model.js'
+export type { ModelDefinition, ModelAlias, ModelType } from './model.js'
+export { ModelDefinitionSchema, ModelAliasSchema, MODEL_TYPES } from './model.js'
 
 export type { SecretRef, SecretResolver } from './auth.js'
 export { SecretRefSchema } from './auth.js'
 
-export type { AuthHook, AuthMethod, AuthCredential, ProviderInfo } from './plugin.js'
+export type {
+  AuthHook,
+  AuthMethod,
+  AuthCredential,
+  CredentialPool,
+  CredentialPoolKey,
+  ProviderInfo,
+} from './plugin.js'
 
 export {
   OpenLLMProviderError,
@@ -22,5 +55,14 @@ export {
   CredentialNotFoundError,
   ProviderNotRegisteredError,
   CatalogSyncFailedError,
+  BudgetExceededError,
+  ProviderUnavailableError,
+  RateLimitError,
+  QuotaExhaustedError,
+  AuthExpiredError,
+  ContextLengthExceededError,
+  ContentFilteredError,
+  UpstreamError,
+  RequestTimeoutError,
 } from './errors.js'
-export type { ErrorCode } from './errors.js'
+export type { ErrorCode, ErrorOptions, BudgetExceededDetails, TimeoutPhase } from './errors.js'
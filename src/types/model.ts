@@ -1,10 +1,14 @@
 import { z } from 'zod'
 
+export const MODEL_TYPES = ['chat', 'embedding', 'image', 'speech', 'transcription', 'reranking'] as const
+
+export type ModelType = (typeof MODEL_TYPES)[number]
+
 export interface ModelDefinition {
   modelId: string
   name?: string
   family?: string
-  type?: 'chat' | 'embedding' | 'image'
+  type?: ModelType
   reasoning?: boolean
   tool_call?: boolean
   structured_output?: boolean
@@ -29,7 +33,8 @@ export interface ModelDefinition {
   }
   status?: 'stable' | 'beta' | 'deprecated'
   knowledgeCutoff?: string
-  provenance?: 'snapshot' | 'remote' | 'user-override'
+  /** Where the metadata came from; 'live' models were listed by the provider's own API */
+  provenance?: 'snapshot' | 'remote' | 'live' | 'user-override'
 }
 
 export const ModelDefinitionSchema = z
@@ -37,7 +42,7 @@ export const ModelDefinitionSchema = z
     modelId: z.string(),
     name: z.string().optional(),
     family: z.string().optional(),
-    type: z.enum(['chat', 'embedding', 'image']).optional(),
+    type: z.enum(MODEL_TYPES).optional(),
     reasoning: z.boolean().optional(),
     tool_call: z.boolean().optional(),
     structured_output: z.boolean().optional(),
@@ -69,7 +74,7 @@ export const ModelDefinitionSchema = z
       .optional(),
     status: z.enum(['stable', 'beta', 'deprecated']).optional(),
     knowledgeCutoff: z.string().optional(),
-    provenance: z.enum(['snapshot', 'remote', 'user-override']).optional(),
+    provenance: z.enum(['snapshot', 'remote', 'live', 'user-override']).optional(),
   })
   .passthrough()
 
@@ -16,6 +16,9 @@ export interface ProviderInfo {
  *
  * Well-known auth (type: 'wellknown'):
  *   - key: credential discovered from well-known config file locations
+ *
+ * Any API-key credential may carry a `pool` of keys instead of (or in addition
+ * to) a single `key`; one key is then selected per request.
  */
 export interface AuthCredential {
   type: 'api' | 'oauth' | 'wellknown'
@@ -29,9 +32,29 @@ export interface AuthCredential {
   apiHost?: string
   host?: string
   location?: string
+  /** Several API keys for the same provider, rotated per request */
+  pool?: CredentialPool
   [key: string]: unknown
 }
 
+export interface CredentialPoolKey {
+  key: string
+  /** Human-readable name used in logs and pool status, defaults to a masked key */
+  label?: string
+  /** Relative share of requests for the 'weighted' strategy (default 1) */
+  weight?: number
+}
+
+export interface CredentialPool {
+  /** Defaults to 'round-robin' */
+  strategy?: 'round-robin' | 'least-recently-used' | 'weighted'
+  keys: CredentialPoolKey[]
+  /** How long a key that hit a 429 is skipped, unless Retry-After says longer (default 60s) */
+  cooldownMs?: number
+  /** How long a key rejected with 401/403 is skipped (default 10min) */
+  authCooldownMs?: number
+}
+
 export interface AuthMethod {
   type: string
   label: string
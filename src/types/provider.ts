@@ -33,11 +33,86 @@ export const ProviderDefinitionSchema = z
   })
   .passthrough()
 
+/** Spend caps in USD. Days and months are counted in UTC. */
+export interface SpendBudget {
+  daily?: number
+  monthly?: number
+  /** Fractions of a cap at which budget warnings fire, e.g. `[0.5, 0.9]` (default `[0.8]`) */
+  warnAt?: number[]
+}
+
+export const SpendBudgetSchema = z.object({
+  daily: z.number().positive().optional(),
+  monthly: z.number().positive().optional(),
+  warnAt: z.array(z.number().positive()).optional(),
+})
+
+/** Client-side request and token throughput limits, applied per credential */
+export interface RateLimit {
+  requestsPerMinute?: number
+  tokensPerMinute?: number
+}
+
+export const RateLimitSchema = z.object({
+  requestsPerMinute: z.number().positive().optional(),
+  tokensPerMinute: z.number().positive().optional(),
+})
+
+/** Fetch-level retries for 408/409/429, 5xx and network errors */
+export interface RetryOptions {
+  /** Retries after the first attempt (default 2) */
+  maxRetries?: number
+  /** Base of the exponential backoff (default 500ms) */
+  initialDelayMs?: number
+  /** Cap on a single backoff wait (default 30s) */
+  maxDelayMs?: number
+  /** Give up instead of retrying when the server asks to wait longer than this (default 60s) */
+  maxRetryAfterMs?: number
+}
+
+export const RetryOptionsSchema = z.object({
+  maxRetries: z.number().int().nonnegative().optional(),
+  initialDelayMs: z.number().nonnegative().optional(),
+  maxDelayMs: z.number().nonnegative().optional(),
+  maxRetryAfterMs: z.number().nonnegative().optional(),
+})
+
+/**
+ * Fetch-level timeouts in milliseconds, off unless set. `totalMs` is one
+ * deadline for the whole call, retries included; the others apply to every
+ * attempt.
+ */
+export interface TimeoutOptions {
+  /** From sending the request until the response headers arrive, connecting included */
+  headersMs?: number
+  /** From the headers until the first chunk of the body */
+  firstByteMs?: number
+  /** The whole call, from sending the first attempt until the body is read */
+  totalMs?: number
+  /** Longest gap between two chunks of the body, for streams that stall mid-response */
+  idleMs?: number
+}
+
+export const TimeoutOptionsSchema = z.object({
+  headersMs: z.number().positive().optional(),
+  firstByteMs: z.number().positive().optional(),
+  totalMs: z.number().positive().optional(),
+  idleMs: z.number().positive().optional(),
+})
+
 export interface ProviderUserConfig {
   apiKey?: SecretRef
   baseURL?: string
   headers?: Record<string, string>
   options?: Record<string, unknown>
+  /** Spend cap for every model of this provider */
+  budget?: SpendBudget
+  /** Overrides the catalog provider's rate limit */
+  rateLimit?: RateLimit
+  /** Overrides the catalog provider's retry policy; `false` disables retries */
+  retry?: RetryOptions | false
+  /** Overrides the catalog provider's timeouts; `false` disables them */
+  timeout?: TimeoutOptions | false
 }
 
 export const ProviderUserConfigSchema = z.object({
@@ -45,4 +120,8 @@ export const ProviderUserConfigSchema = z.object({
   baseURL: z.string().optional(),
   headers: z.record(z.string()).optional(),
   options: z.record(z.unknown()).optional(),
+  budget: SpendBudgetSchema.optional(),
+  rateLimit: RateLimitSchema.optional(),
+  retry: z.union([RetryOptionsSchema, z.literal(false)]).optional(),
+  timeout: z.union([TimeoutOptionsSchema, z.literal(false)]).optional(),
 })